@@ -1,6 +1,11 @@
 module.exports = {
   extends: ['@tiffinger-thiel/eslint-config/profile/react'],
 
+  // tsconfig.test.json also includes the tests
+  parserOptions: {
+    project: './tsconfig.test.json',
+  },
+
   // The following is optional, it speeds up prettier if passed.
   // It should match your react version.
   settings: {
@@ -0,0 +1,12 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { BroadcastChannel } from 'worker_threads';
+
+// jsdom does not implement the Web Crypto API (PKCE, ID token validation) and the encoding API
+Object.defineProperty(window, 'crypto', { value: webcrypto });
+Object.assign(window, { TextEncoder, TextDecoder });
+// the tab sync falls back to storage events, which jsdom only sends to other windows
+Object.assign(window, { BroadcastChannel });
+
+// AppAuth logs every request and response
+jest.spyOn(console, 'log').mockImplementation(() => undefined);
@@ -4,22 +4,31 @@ import typescript from "@rollup/plugin-typescript";
 import dts from "rollup-plugin-dts";
 import { terser } from "rollup-plugin-terser";
 import peerDepsExternal from 'rollup-plugin-peer-deps-external';
+import path from "path";
 
 const packageJson = require("./package.json");
 
+// the testing entry imports the main entry, so both share the same AuthContext
+const isMainTypes = (id) => id === "../index" || id.replace(/\.d\.ts$/, "") === path.resolve(__dirname, "dist/esm/types/index");
+
 export default [
   {
-    input: "src/index.ts",
+    input: {
+      index: "src/index.ts",
+      testing: "src/testing/index.ts",
+    },
     output: [
       {
-        file: packageJson.main,
+        dir: path.dirname(packageJson.main),
         format: "cjs",
         sourcemap: true,
+        chunkFileNames: "shared-[hash].js",
       },
       {
-        file: packageJson.module,
+        dir: path.dirname(packageJson.module),
         format: "esm",
         sourcemap: true,
+        chunkFileNames: "shared-[hash].js",
       },
     ],
     plugins: [
@@ -27,7 +36,7 @@ export default [
 
       resolve(),
       commonjs(),
-      typescript({ tsconfig: "./tsconfig.json" }),
+      typescript({ tsconfig: "./tsconfig.json", outDir: "dist/esm", declarationDir: "dist/esm/types" }),
 
       terser(),
     ],
@@ -37,4 +46,10 @@ export default [
     output: [{ file: "dist/index.d.ts", format: "esm" }],
     plugins: [dts()],
   },
+  {
+    input: "dist/esm/types/testing/index.d.ts",
+    external: isMainTypes,
+    output: [{ file: "dist/testing.d.ts", format: "esm", paths: (id) => (isMainTypes(id) ? "./index" : id) }],
+    plugins: [dts()],
+  },
 ];
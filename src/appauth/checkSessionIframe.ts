@@ -0,0 +1,103 @@
+import { AppAuthError, AuthorizationResponse, AuthorizationResponseJson, log } from '@openid/appauth';
+
+const DEFAULT_INTERVAL_MILLISECONDS = 2000;
+
+export interface SessionAuthorizationResponseJson extends AuthorizationResponseJson {
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  session_state?: string;
+}
+
+/**
+ * An AuthorizationResponse which keeps the `session_state` of OpenID Connect Session Management.
+ */
+export class SessionAuthorizationResponse extends AuthorizationResponse {
+  public sessionState?: string;
+
+  public constructor(response: SessionAuthorizationResponseJson) {
+    super(response);
+    this.sessionState = response.session_state;
+  }
+}
+
+export interface CheckSessionListeners {
+  /**
+   * The session at the identity provider changed, e.g. the user logged out in another application.
+   */
+  onChanged: () => void;
+  /**
+   * The identity provider could not check the session, e.g. because of an unknown client id.
+   */
+  onError: (err: AppAuthError) => void;
+}
+
+/**
+ * Polls the `check_session_iframe` of the identity provider (OpenID Connect Session Management).
+ * The polling stops after a change or an error, until `start` is called with a new session state.
+ */
+export class CheckSessionIframe {
+  private readonly origin: string;
+  private iframe?: HTMLIFrameElement;
+  private intervalId?: number;
+  private sessionState?: string;
+
+  public constructor(
+    private readonly checkSessionIframeUrl: string,
+    private readonly clientId: string,
+    private readonly listeners: CheckSessionListeners,
+    private readonly intervalMilliseconds: number = DEFAULT_INTERVAL_MILLISECONDS,
+  ) {
+    this.origin = new URL(checkSessionIframeUrl).origin;
+  }
+
+  /**
+   * Start polling for the given session state, or continue with a new one.
+   */
+  public start(sessionState: string): void {
+    this.sessionState = sessionState;
+    if (this.iframe) {
+      return;
+    }
+
+    const iframe = document.createElement('iframe');
+    iframe.style.display = 'none';
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.onload = () => {
+      // the identity provider may reload the iframe
+      window.clearInterval(this.intervalId);
+      this.check();
+      this.intervalId = window.setInterval(this.check, this.intervalMilliseconds);
+    };
+    window.addEventListener('message', this.onMessage);
+    iframe.src = this.checkSessionIframeUrl;
+    document.body.appendChild(iframe);
+    this.iframe = iframe;
+  }
+
+  public stop(): void {
+    window.clearInterval(this.intervalId);
+    window.removeEventListener('message', this.onMessage);
+    this.iframe?.remove();
+    this.iframe = undefined;
+    this.sessionState = undefined;
+  }
+
+  private readonly check = (): void => {
+    // the format of the message is defined by the specification
+    this.iframe?.contentWindow?.postMessage(`${this.clientId} ${this.sessionState || ''}`, this.origin);
+  };
+
+  private readonly onMessage = (event: MessageEvent): void => {
+    if (event.origin !== this.origin || !this.iframe || event.source !== this.iframe.contentWindow) {
+      return;
+    }
+
+    if (event.data === 'changed') {
+      log('The session at the identity provider changed');
+      this.stop();
+      this.listeners.onChanged();
+    } else if (event.data === 'error') {
+      this.stop();
+      this.listeners.onError(new AppAuthError('the check_session_iframe could not check the session'));
+    }
+  };
+}
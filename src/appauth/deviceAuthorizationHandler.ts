@@ -0,0 +1,166 @@
+import {
+  AppAuthError,
+  BasicQueryStringUtils,
+  QueryStringUtils,
+  Requestor,
+  StringMap,
+  TokenResponse,
+  TokenResponseJson,
+} from '@openid/appauth';
+import { OAuthError } from './errors';
+import { OpenIdConfiguration } from './openIdConfiguration';
+
+export const GRANT_TYPE_DEVICE_CODE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+/**
+ * The response of the device_authorization_endpoint as described in
+ * https://datatracker.ietf.org/doc/html/rfc8628#section-3.2
+ */
+export interface DeviceAuthorizationResponseJson {
+  /* eslint-disable @typescript-eslint/naming-convention */
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+  /* eslint-enable @typescript-eslint/naming-convention */
+}
+
+/**
+ * The code the user enters at the verification uri on another device.
+ */
+export interface DeviceAuthorization {
+  userCode: string;
+  verificationUri: string;
+  /**
+   * The verification uri including the user code, e.g. to show it as QR code.
+   */
+  verificationUriComplete?: string;
+  expiresAt: Date;
+}
+
+export interface DeviceAuthorizationRequest {
+  clientId: string;
+  scope: string;
+  extras?: StringMap;
+}
+
+/**
+ * The device login was cancelled with `cancelDeviceLogin` or by a new device login.
+ */
+export class DeviceLoginCancelledError extends AppAuthError {}
+
+/**
+ * The default polling interval in seconds.
+ */
+const DEFAULT_INTERVAL = 5;
+/**
+ * Added to the interval on each `slow_down` error.
+ */
+const SLOW_DOWN_INTERVAL = 5;
+
+/**
+ * Waits the given time, or until the signal is aborted.
+ */
+function wait(milliseconds: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timeoutId = window.setTimeout(done, milliseconds);
+    signal.addEventListener('abort', done);
+
+    function done(): void {
+      window.clearTimeout(timeoutId);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Performs the OAuth 2.0 Device Authorization Grant (https://datatracker.ietf.org/doc/html/rfc8628).
+ */
+export class DeviceAuthorizationHandler {
+  public constructor(private readonly requestor: Requestor, private readonly utils: QueryStringUtils = new BasicQueryStringUtils()) {}
+
+  public async performDeviceAuthorizationRequest(
+    configuration: OpenIdConfiguration,
+    request: DeviceAuthorizationRequest,
+  ): Promise<DeviceAuthorizationResponseJson> {
+    if (!configuration.deviceAuthorizationEndpoint) {
+      throw new Error('the identity provider does not provide a device_authorization_endpoint');
+    }
+
+    return this.requestor.xhr<DeviceAuthorizationResponseJson>({
+      url: configuration.deviceAuthorizationEndpoint,
+      method: 'POST',
+      dataType: 'json',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      data: this.utils.stringify({ ...request.extras, client_id: request.clientId, scope: request.scope }),
+    });
+  }
+
+  /**
+   * Polls the token endpoint until the user approved the login, respecting `interval`, `slow_down` and `expires_in`.
+   * @throws OAuthError if the login was denied (`access_denied`) or the device code expired (`expired_token`)
+   * @throws DeviceLoginCancelledError if the signal was aborted
+   */
+  public async pollForToken(
+    configuration: OpenIdConfiguration,
+    clientId: string,
+    response: DeviceAuthorizationResponseJson,
+    signal: AbortSignal,
+  ): Promise<TokenResponse> {
+    const tokenEndpoint = configuration.tokenEndpoint;
+    const expiresAt = Date.now() + response.expires_in * 1000;
+    let interval = response.interval ?? DEFAULT_INTERVAL;
+
+    for (;;) {
+      await wait(interval * 1000, signal);
+      if (signal.aborted) {
+        throw new DeviceLoginCancelledError('the device login was cancelled');
+      }
+      if (Date.now() >= expiresAt) {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        throw new OAuthError(tokenEndpoint, 400, { error: 'expired_token', error_description: 'the device code expired' });
+      }
+
+      try {
+        const json = await this.requestor.xhr<TokenResponseJson>({
+          url: tokenEndpoint,
+          method: 'POST',
+          dataType: 'json',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          data: this.utils.stringify({ grant_type: GRANT_TYPE_DEVICE_CODE, device_code: response.device_code, client_id: clientId }),
+        });
+        // the user may have approved the login right before it was cancelled
+        if (signal.aborted) {
+          throw new DeviceLoginCancelledError('the device login was cancelled');
+        }
+        return new TokenResponse(json);
+      } catch (err) {
+        if (err instanceof OAuthError && err.error === 'authorization_pending') {
+          continue;
+        }
+        if (err instanceof OAuthError && err.error === 'slow_down') {
+          interval += SLOW_DOWN_INTERVAL;
+          continue;
+        }
+        throw err;
+      }
+    }
+  }
+}
+
+/**
+ * @returns the DeviceAuthorization to show to the user
+ */
+export function toDeviceAuthorization(response: DeviceAuthorizationResponseJson): DeviceAuthorization {
+  return {
+    userCode: response.user_code,
+    verificationUri: response.verification_uri,
+    verificationUriComplete: response.verification_uri_complete,
+    expiresAt: new Date(Date.now() + response.expires_in * 1000),
+  };
+}
@@ -0,0 +1,103 @@
+import { StorageBackend } from '@openid/appauth';
+import { openDatabase, withStore } from './indexedDb';
+
+const KEY_DATABASE_NAME = 'appauth-keys';
+const KEY_STORE_NAME = 'keys';
+const DEFAULT_KEY_NAME = 'storage-encryption-key';
+const IV_LENGTH = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * A StorageBackend which encrypts all values with AES-GCM before passing them to the wrapped backend.
+ *
+ * The key is generated as non-extractable WebCrypto key and is persisted in IndexedDB
+ * (CryptoKeys can be stored there without exporting them). So even a script which is able to
+ * read the wrapped storage only gets the cipher text.
+ */
+export class EncryptedStorageBackend extends StorageBackend {
+  private key?: Promise<CryptoKey>;
+
+  public constructor(private readonly storage: StorageBackend, private readonly keyName: string = DEFAULT_KEY_NAME) {
+    super();
+  }
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  public async getItem(name: string): Promise<string | null> {
+    const stored = await this.storage.getItem(name);
+    if (stored === null) {
+      return null;
+    }
+
+    try {
+      const bytes = fromBase64(stored);
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH) },
+        await this.getKey(),
+        bytes.subarray(IV_LENGTH),
+      );
+      return new TextDecoder().decode(plain);
+    } catch {
+      // the key changed (e.g. the IndexedDB was deleted) or the value was tampered with
+      return null;
+    }
+  }
+
+  public removeItem(name: string): Promise<void> {
+    return this.storage.removeItem(name);
+  }
+
+  public clear(): Promise<void> {
+    return this.storage.clear();
+  }
+
+  public async setItem(name: string, value: string): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const cipher = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await this.getKey(), new TextEncoder().encode(value)),
+    );
+
+    const bytes = new Uint8Array(IV_LENGTH + cipher.length);
+    bytes.set(iv);
+    bytes.set(cipher, IV_LENGTH);
+    await this.storage.setItem(name, toBase64(bytes));
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      this.key = this.loadOrCreateKey();
+      // allow retrying if IndexedDB or WebCrypto failed
+      this.key.catch(() => {
+        this.key = undefined;
+      });
+    }
+    return this.key;
+  }
+
+  private async loadOrCreateKey(): Promise<CryptoKey> {
+    const database = openDatabase(KEY_DATABASE_NAME, KEY_STORE_NAME);
+    const existing = await withStore<CryptoKey | undefined>(database, KEY_STORE_NAME, 'readonly', store => store.get(this.keyName));
+    if (existing) {
+      return existing;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await withStore(database, KEY_STORE_NAME, 'readwrite', store => store.put(key, this.keyName));
+    return key;
+  }
+}
@@ -12,32 +12,44 @@
  * limitations under the License.
  */
 
-import { StringMap } from '@openid/appauth';
+import { Crypto, DefaultCrypto, StringMap } from '@openid/appauth';
 
 /**
- * Represents an AuthorizationRequest as JSON.
+ * Generates a cryptographically random new state. Useful for CSRF protection.
+ */
+const SIZE = 10; // 10 bytes
+const newState = function (crypto: Crypto): string {
+  return crypto.generateRandom(SIZE);
+};
+
+/**
+ * Represents an EndSessionRequest as JSON.
  */
 export interface EndSessionRequestJson {
   client_id: string;
-  redirect_uri: string;
   // eslint-disable-next-line @typescript-eslint/naming-convention
-  id_token_hint: string;
+  post_logout_redirect_uri: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  id_token_hint?: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  logout_hint?: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  ui_locales?: string;
   state?: string;
   extras?: StringMap;
   internal?: StringMap;
 }
 
 /**
- * Represents the EndSessionRequest.
+ * Represents the EndSessionRequest as defined by
+ * https://openid.net/specs/openid-connect-rpinitiated-1_0.html
  */
 export class EndSessionRequest {
-  // NOTE:
-  // redirect_uri, token_id and state are actually optional.
-  // However AppAuth is more opionionated, and requires you to use both.
-
   public clientId: string;
-  public redirectUri: string;
-  public idTokenHint: string;
+  public postLogoutRedirectUri: string;
+  public idTokenHint?: string;
+  public logoutHint?: string;
+  public uiLocales?: string;
   public state: string;
   public extras?: StringMap;
   public internal?: StringMap;
@@ -47,26 +59,32 @@ export class EndSessionRequest {
    * Use a `undefined` value for the `state` parameter, to generate a random
    * state for CSRF protection.
    */
-  public constructor(request: EndSessionRequestJson) {
+  public constructor(request: EndSessionRequestJson, crypto: Crypto = new DefaultCrypto()) {
     this.clientId = request.client_id;
-    this.redirectUri = request.redirect_uri;
+    this.postLogoutRedirectUri = request.post_logout_redirect_uri;
     this.idTokenHint = request.id_token_hint;
-    this.state = request.state || '';
+    this.logoutHint = request.logout_hint;
+    this.uiLocales = request.ui_locales;
+    this.state = request.state || newState(crypto);
     this.extras = request.extras;
     // read internal properties if available
     this.internal = request.internal;
   }
 
   /**
-   * Serializes the AuthorizationRequest to a JavaScript Object.
+   * Serializes the EndSessionRequest to a JavaScript Object.
    */
   public toJson(): EndSessionRequestJson {
-    // Always make sure that the code verifier is setup when toJson() is called.
     return {
       client_id: this.clientId,
-      redirect_uri: this.redirectUri,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      post_logout_redirect_uri: this.postLogoutRedirectUri,
       // eslint-disable-next-line @typescript-eslint/naming-convention
       id_token_hint: this.idTokenHint,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      logout_hint: this.logoutHint,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      ui_locales: this.uiLocales,
       state: this.state,
       extras: this.extras,
       internal: this.internal,
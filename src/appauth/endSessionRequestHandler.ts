@@ -15,9 +15,8 @@
 import { AuthorizationServiceConfiguration, QueryStringUtils, StringMap } from '@openid/appauth';
 import { EndSessionRequest } from './endSessionRequest';
 
-// TODO(rahulrav@): add more built in parameters.
 /* built in parameters. */
-export const BUILT_IN_PARAMETERS = ['redirect_uri', 'client_id', 'id_token_hint', 'state'];
+export const BUILT_IN_PARAMETERS = ['post_logout_redirect_uri', 'client_id', 'id_token_hint', 'logout_hint', 'ui_locales', 'state'];
 
 /**
  * Defines the interface which is capable of handling an authorization request
@@ -33,12 +32,20 @@ export abstract class EndSessionRequestHandler {
     // build the query string
     // coerce to any type for convenience
     const requestMap: StringMap = {
-      redirect_uri: request.redirectUri,
       // eslint-disable-next-line @typescript-eslint/naming-convention
-      id_token_hint: request.idTokenHint,
+      post_logout_redirect_uri: request.postLogoutRedirectUri,
+      client_id: request.clientId,
       state: request.state,
-      action: 'logout',
     };
+    if (request.idTokenHint) {
+      requestMap.id_token_hint = request.idTokenHint;
+    }
+    if (request.logoutHint) {
+      requestMap.logout_hint = request.logoutHint;
+    }
+    if (request.uiLocales) {
+      requestMap.ui_locales = request.uiLocales;
+    }
 
     // copy over extras
     if (request.extras) {
@@ -62,4 +69,12 @@ export abstract class EndSessionRequestHandler {
    * Makes an end session request.
    */
   public abstract performEndSessionRequest(configuration: AuthorizationServiceConfiguration, request: EndSessionRequest): void;
+
+  /**
+   * Completes the end session request if the current location is the response to one.
+   * @returns the completed request or undefined if there is nothing to complete
+   */
+  public completeEndSessionRequestIfPossible(): Promise<EndSessionRequest | undefined> {
+    return Promise.resolve(undefined);
+  }
 }
@@ -0,0 +1,64 @@
+import { AppAuthError } from '@openid/appauth';
+
+/**
+ * The error response of the identity provider as described in
+ * https://datatracker.ietf.org/doc/html/rfc6749#section-5.2
+ */
+export interface OAuthErrorJson {
+  error?: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  error_description?: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  error_uri?: string;
+}
+
+/**
+ * Base class of all errors of requests to the identity provider.
+ */
+export class RequestError extends AppAuthError {
+  public constructor(
+    message: string,
+    /**
+     * The url of the failed request (without query).
+     */
+    public readonly endpoint: string,
+    extras?: unknown,
+  ) {
+    super(message, extras);
+  }
+}
+
+/**
+ * The identity provider answered with an error status.
+ */
+export class OAuthError extends RequestError {
+  /**
+   * The OAuth error code, e.g. `invalid_grant`.
+   * undefined if the response did not contain one.
+   */
+  public readonly error?: string;
+  public readonly errorDescription?: string;
+  public readonly errorUri?: string;
+
+  public constructor(endpoint: string, public readonly statusCode: number, json: OAuthErrorJson = {}) {
+    super(`${endpoint} responded with ${statusCode}${json.error ? ` (${json.error})` : ''}`, endpoint, json);
+    this.error = json.error;
+    this.errorDescription = json.error_description;
+    this.errorUri = json.error_uri;
+  }
+}
+
+/**
+ * The identity provider could not be reached.
+ */
+export class NetworkError extends RequestError {}
+
+/**
+ * The request was aborted as it took too long.
+ */
+export class TimeoutError extends NetworkError {}
+
+/**
+ * The request was aborted by a signal set in a request interceptor.
+ */
+export class AbortError extends NetworkError {}
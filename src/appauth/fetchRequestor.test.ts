@@ -0,0 +1,71 @@
+import { ConfigurableFetchRequestor } from './fetchRequestor';
+import { NetworkError, OAuthError } from './errors';
+
+const URL = 'https://idp.example.test/token';
+
+// jsdom does not implement the fetch API
+function createResponse(status: number, retryAfter?: string): Response {
+  const headers: Record<string, string | undefined> = { 'content-type': 'application/json', 'retry-after': retryAfter };
+  return {
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: () => Promise.resolve({}),
+  } as unknown as Response;
+}
+
+describe('ConfigurableFetchRequestor', () => {
+  function createRequestor(fetch: jest.Mock): ConfigurableFetchRequestor {
+    return new ConfigurableFetchRequestor({ fetch, retry: { initialDelayMilliseconds: 0 } });
+  }
+
+  it('retries a GET request after a network error', async () => {
+    const fetch = jest.fn().mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue(createResponse(200));
+
+    await expect(createRequestor(fetch).xhr({ url: URL, method: 'GET', dataType: 'json' })).resolves.toEqual({});
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a POST request by default', async () => {
+    const fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(createRequestor(fetch).xhr({ url: URL, method: 'POST', data: 'grant_type=refresh_token' })).rejects.toBeInstanceOf(
+      NetworkError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([429, 503])('retries a POST request after a %s response with Retry-After', async status => {
+    const fetch = jest.fn().mockResolvedValueOnce(createResponse(status, '0')).mockResolvedValue(createResponse(200));
+
+    await expect(createRequestor(fetch).xhr({ url: URL, method: 'POST', dataType: 'json' })).resolves.toEqual({});
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a POST request after a 503 response without Retry-After', async () => {
+    const fetch = jest.fn().mockResolvedValue(createResponse(503));
+
+    await expect(createRequestor(fetch).xhr({ url: URL, method: 'POST', dataType: 'json' })).rejects.toBeInstanceOf(OAuthError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a POST request of an allowed method after a network error', async () => {
+    const fetch = jest.fn().mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue(createResponse(200));
+    const requestor = new ConfigurableFetchRequestor({ fetch, retry: { initialDelayMilliseconds: 0, methods: ['GET', 'POST'] } });
+
+    await expect(requestor.xhr({ url: URL, method: 'POST', dataType: 'json' })).resolves.toEqual({});
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes the abort listener from the signal of an interceptor', async () => {
+    const controller = new AbortController();
+    const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+    const fetch = jest.fn().mockResolvedValue(createResponse(200));
+    const requestor = new ConfigurableFetchRequestor({
+      fetch,
+      requestInterceptors: [(url, request) => [url, { ...request, signal: controller.signal }]],
+    });
+
+    await requestor.xhr({ url: URL, method: 'GET' });
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
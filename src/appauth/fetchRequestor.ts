@@ -1,30 +1,124 @@
 import { AppAuthError, Requestor } from '@openid/appauth';
+import { AbortError, NetworkError, OAuthError, OAuthErrorJson, TimeoutError } from './errors';
 
-type RequestInterceptor = (url: URL, request: RequestInit) => [URL, RequestInit];
+/**
+ * Modifies a request before it is sent, e.g. to add custom headers or to route it through a proxy.
+ * Request interceptors are called again for each retry.
+ */
+export type RequestInterceptor = (url: URL, request: RequestInit) => [URL, RequestInit];
 
-const passthrough: RequestInterceptor = (u, r) => [u, r];
+/**
+ * Gets each received response (also the ones which are retried), e.g. for logging.
+ * It may return a different response.
+ */
+export type ResponseInterceptor = (response: Response, url: URL, request: RequestInit) => Response | Promise<Response>;
 
-export const timeoutInterceptor: (timeoutMilliseconds?: number) => RequestInterceptor =
-  (timeoutMilliseconds = 30000) =>
-  (url, request) => {
-    const controller = new AbortController();
-    setTimeout(() => controller.abort(), timeoutMilliseconds);
-    request.signal = controller.signal;
+export interface RetryOptions {
+  /**
+   * @default 2
+   */
+  maxRetries?: number;
+  /**
+   * The delay before the first retry, it is doubled for each further retry.
+   * A random jitter is applied to every delay.
+   * @default 500
+   */
+  initialDelayMilliseconds?: number;
+  /**
+   * Responses with a longer `Retry-After` are not retried.
+   * @default 10000
+   */
+  maxDelayMilliseconds?: number;
+  /**
+   * The HTTP methods which are retried. POST requests to the token endpoint are not retried by default,
+   * as a lost response would resend the single use authorization code or the already rotated refresh token.
+   * Requests of the other methods are only retried after a 429 or 503 response with `Retry-After`,
+   * as the server did not process them.
+   * @default ['GET']
+   */
+  methods?: string[];
+}
+
+export interface FetchRequestorOptions {
+  requestInterceptors?: RequestInterceptor[];
+  responseInterceptors?: ResponseInterceptor[];
+  /**
+   * Retry network errors, 5xx and 429 responses with exponential backoff.
+   * Requests are not retried if this is not set.
+   */
+  retry?: RetryOptions;
+  /**
+   * The timeout of each single attempt.
+   * @default 30000
+   */
+  timeoutMilliseconds?: number;
+  /**
+   * The fetch implementation, e.g. a fake identity provider in tests.
+   * @default window.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+const DEFAULT_TIMEOUT_MILLISECONDS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_INITIAL_DELAY_MILLISECONDS = 500;
+const DEFAULT_MAX_DELAY_MILLISECONDS = 10000;
+export const DEFAULT_RETRY_METHODS = ['GET'];
+const HTTP_TOO_MANY_REQUESTS = 429;
+const HTTP_SERVICE_UNAVAILABLE = 503;
+
+/**
+ * Lets the request finish even if the page is left.
+ */
+export const keepaliveInterceptor: RequestInterceptor = (url, request) => [url, { ...request, keepalive: true }];
 
-    return [url, request];
-  };
+function isRetryableStatus(status: number): boolean {
+  return status === HTTP_TOO_MANY_REQUESTS || status >= 500;
+}
+
+/**
+ * @returns the delay in milliseconds of a `Retry-After` header (seconds or HTTP date)
+ */
+// eslint-disable-next-line @rushstack/no-new-null
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * @returns the OAuth error fields of the response body, if it has any
+ */
+async function readErrorJson(response: Response): Promise<OAuthErrorJson | undefined> {
+  try {
+    const json = (await response.json()) as OAuthErrorJson | undefined;
+    return json && typeof json === 'object' ? json : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function delay(milliseconds: number): Promise<void> {
+  return new Promise(resolve => window.setTimeout(resolve, milliseconds));
+}
 
 /**
  * Uses fetch API to make Ajax requests
  */
 export class ConfigurableFetchRequestor extends Requestor {
-  public constructor(private readonly interceptRequest: RequestInterceptor = passthrough) {
+  public constructor(private readonly options: FetchRequestorOptions = {}) {
     super();
   }
 
-  public xhr<T>(settings: JQueryAjaxSettings): Promise<T> {
+  public async xhr<T>(settings: JQueryAjaxSettings): Promise<T> {
     if (!settings.url) {
-      return Promise.reject(new AppAuthError('A URL must be provided.'));
+      throw new AppAuthError('A URL must be provided.');
     }
     const url: URL = new URL(settings.url as string);
     const requestInit: RequestInit = {};
@@ -43,11 +137,11 @@ export class ConfigurableFetchRequestor extends Requestor {
     }
 
     // Set the request headers
-    requestInit.headers = {};
+    const headers: Record<string, string> = {};
     if (settings.headers) {
       for (const i in settings.headers) {
         if (settings.headers.hasOwnProperty(i)) {
-          requestInit.headers[i] = settings.headers[i] as string;
+          headers[i] = settings.headers[i] as string;
         }
       }
     }
@@ -58,22 +152,113 @@ export class ConfigurableFetchRequestor extends Requestor {
     // https://github.com/jquery/jquery/blob/e0d941156900a6bff7c098c8ea7290528e468cf8/src/ajax.js#L644
     // )
     if (isJsonDataType) {
-      requestInit.headers.Accept = 'application/json, text/javascript, */*; q=0.01';
+      headers.Accept = 'application/json, text/javascript, */*; q=0.01';
+    }
+    requestInit.headers = headers;
+
+    const response = await this.fetchWithRetry(url, requestInit);
+    if (response.status >= 200 && response.status < 300) {
+      const contentType = response.headers.get('content-type');
+      if (isJsonDataType || (contentType && contentType.indexOf('application/json') !== -1)) {
+        return response.json() as Promise<T>;
+      } else {
+        return response.text() as unknown as Promise<T>;
+      }
     }
+    throw new OAuthError(url.origin + url.pathname, response.status, await readErrorJson(response));
+  }
+
+  private async fetchWithRetry(url: URL, requestInit: RequestInit): Promise<Response> {
+    const retry = this.options.retry;
+    const method = (requestInit.method || 'GET').toUpperCase();
+    const isRetryableMethod = (retry?.methods || DEFAULT_RETRY_METHODS).some(retryMethod => retryMethod.toUpperCase() === method);
+    const maxRetries = retry ? retry.maxRetries ?? DEFAULT_MAX_RETRIES : 0;
+    const maxDelay = retry?.maxDelayMilliseconds ?? DEFAULT_MAX_DELAY_MILLISECONDS;
 
-    const [modifiedUrl, modifiedRequestInit] = this.interceptRequest(url, requestInit);
+    for (let attempt = 0; ; attempt++) {
+      // exponential backoff with full jitter
+      const backoff =
+        Math.random() * Math.min(maxDelay, (retry?.initialDelayMilliseconds ?? DEFAULT_INITIAL_DELAY_MILLISECONDS) * 2 ** attempt);
 
-    return fetch(modifiedUrl.toString(), modifiedRequestInit).then(response => {
-      if (response.status >= 200 && response.status < 300) {
-        const contentType = response.headers.get('content-type');
-        if (isJsonDataType || (contentType && contentType.indexOf('application/json') !== -1)) {
-          return response.json();
-        } else {
-          return response.text();
+      let response: Response;
+      try {
+        response = await this.fetchOnce(url, requestInit);
+      } catch (err) {
+        // timeouts and aborted requests are not retried
+        if (
+          attempt >= maxRetries ||
+          !isRetryableMethod ||
+          !(err instanceof NetworkError) ||
+          err instanceof TimeoutError ||
+          err instanceof AbortError
+        ) {
+          throw err;
         }
-      } else {
-        return Promise.reject(new AppAuthError(response.status.toString(), response.statusText));
+        await delay(backoff);
+        continue;
+      }
+
+      if (attempt >= maxRetries || !isRetryableStatus(response.status)) {
+        return response;
+      }
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      const isNotProcessed =
+        retryAfter !== undefined && (response.status === HTTP_TOO_MANY_REQUESTS || response.status === HTTP_SERVICE_UNAVAILABLE);
+      if ((!isRetryableMethod && !isNotProcessed) || (retryAfter !== undefined && retryAfter > maxDelay)) {
+        return response;
       }
+      await delay(retryAfter ?? backoff);
+    }
+  }
+
+  private async fetchOnce(url: URL, requestInit: RequestInit): Promise<Response> {
+    // each attempt gets its own copy, as the interceptors may modify it
+    let [interceptedUrl, interceptedRequest]: [URL, RequestInit] = [
+      new URL(url.toString()),
+      { ...requestInit, headers: { ...requestInit.headers } },
+    ];
+    (this.options.requestInterceptors || []).forEach(intercept => {
+      [interceptedUrl, interceptedRequest] = intercept(interceptedUrl, interceptedRequest);
     });
+
+    const endpoint = interceptedUrl.origin + interceptedUrl.pathname;
+    const controller = new AbortController();
+    let isTimedOut = false;
+    const timeoutId = window.setTimeout(() => {
+      isTimedOut = true;
+      controller.abort();
+    }, this.options.timeoutMilliseconds ?? DEFAULT_TIMEOUT_MILLISECONDS);
+    // keep supporting a signal set by an interceptor
+    const signal = interceptedRequest.signal;
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    const abort = (): void => controller.abort();
+    signal?.addEventListener('abort', abort);
+    try {
+      let response: Response;
+      try {
+        const init = { ...interceptedRequest, signal: controller.signal };
+        response = await (this.options.fetch
+          ? this.options.fetch(interceptedUrl.toString(), init)
+          : fetch(interceptedUrl.toString(), init));
+      } catch (err) {
+        if (isTimedOut) {
+          throw new TimeoutError(`the request to ${endpoint} timed out`, endpoint, err);
+        }
+        if (controller.signal.aborted) {
+          throw new AbortError(`the request to ${endpoint} was aborted`, endpoint, err);
+        }
+        // fetch rejects with a TypeError on network errors
+        throw new NetworkError(`the request to ${endpoint} failed`, endpoint, err);
+      }
+      for (const intercept of this.options.responseInterceptors || []) {
+        response = await intercept(response, interceptedUrl, interceptedRequest);
+      }
+      return response;
+    } finally {
+      window.clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+    }
   }
 }
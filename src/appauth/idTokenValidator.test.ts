@@ -0,0 +1,111 @@
+import { Requestor } from '@openid/appauth';
+import { NetworkError } from './errors';
+import { IdTokenValidationError, IdTokenValidationOptions, IdTokenValidator } from './idTokenValidator';
+
+const OPTIONS: IdTokenValidationOptions = {
+  issuer: 'https://idp.example.test',
+  clientId: 'fake-client',
+  jwksUri: 'https://idp.example.test/jwks',
+};
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function createRsaKeyPair(): Promise<Required<CryptoKeyPair>> {
+  return (await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify'],
+  )) as Required<CryptoKeyPair>;
+}
+
+async function createIdToken(privateKey: CryptoKey, header: Record<string, unknown>): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const signingInput = `${encodeJson(header)}.${encodeJson({
+    iss: OPTIONS.issuer,
+    aud: OPTIONS.clientId,
+    sub: '42',
+    iat: now,
+    exp: now + 60,
+  })}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function createRequestor(loadJwks: () => Promise<unknown>): Requestor {
+  return { xhr: loadJwks } as unknown as Requestor;
+}
+
+describe('IdTokenValidator', () => {
+  let signingKeys: Required<CryptoKeyPair>;
+  let publicJwk: JsonWebKey;
+
+  beforeAll(async () => {
+    signingKeys = await createRsaKeyPair();
+    publicJwk = await crypto.subtle.exportKey('jwk', signingKeys.publicKey);
+  });
+
+  it('picks the signing key of the algorithm if the header has no kid', async () => {
+    const encryptionJwk = await crypto.subtle.exportKey('jwk', (await createRsaKeyPair()).publicKey);
+    const jwks = {
+      keys: [
+        { ...encryptionJwk, use: 'enc' },
+        { kty: 'EC', crv: 'P-256', x: 'x', y: 'y', use: 'sig' },
+        { ...publicJwk, alg: 'RS256', use: 'sig' },
+      ],
+    };
+    const validator = new IdTokenValidator(createRequestor(() => Promise.resolve(jwks)));
+    const idToken = await createIdToken(signingKeys.privateKey, { alg: 'RS256' });
+
+    await expect(validator.validate(idToken, OPTIONS)).resolves.toMatchObject({ sub: '42' });
+  });
+
+  it('rejects a token without a matching signing key', async () => {
+    const jwks = {
+      keys: [
+        { ...publicJwk, use: 'enc' },
+        { ...publicJwk, alg: 'PS256' },
+      ],
+    };
+    const validator = new IdTokenValidator(createRequestor(() => Promise.resolve(jwks)));
+    const idToken = await createIdToken(signingKeys.privateKey, { alg: 'RS256' });
+
+    await expect(validator.validate(idToken, OPTIONS)).rejects.toMatchObject({ message: 'no signing key found for kid undefined' });
+  });
+
+  it('reports a failed JWKS request as RequestError, not as invalid token', async () => {
+    const validator = new IdTokenValidator(createRequestor(() => Promise.reject(new NetworkError('offline', OPTIONS.jwksUri))));
+    const idToken = await createIdToken(signingKeys.privateKey, { alg: 'RS256' });
+
+    await expect(validator.validate(idToken, OPTIONS)).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('loads the JWKS again after a failed request', async () => {
+    const loadJwks = jest
+      .fn()
+      .mockImplementationOnce(() => Promise.reject(new NetworkError('offline', OPTIONS.jwksUri)))
+      .mockImplementation(() => Promise.resolve({ keys: [publicJwk] }));
+    const validator = new IdTokenValidator(createRequestor(loadJwks));
+    const idToken = await createIdToken(signingKeys.privateKey, { alg: 'RS256' });
+
+    await expect(validator.validate(idToken, OPTIONS)).rejects.toBeInstanceOf(NetworkError);
+    await expect(validator.validate(idToken, OPTIONS)).resolves.toMatchObject({ sub: '42' });
+  });
+
+  it('reports an invalid key as IdTokenValidationError', async () => {
+    const jwks = { keys: [{ kty: 'RSA', n: 'invalid', e: 'AQAB' }] };
+    const validator = new IdTokenValidator(createRequestor(() => Promise.resolve(jwks)));
+    const idToken = await createIdToken(signingKeys.privateKey, { alg: 'RS256' });
+
+    await expect(validator.validate(idToken, OPTIONS)).rejects.toBeInstanceOf(IdTokenValidationError);
+  });
+});
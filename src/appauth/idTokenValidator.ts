@@ -0,0 +1,196 @@
+import { AppAuthError, Requestor } from '@openid/appauth';
+import { RequestError } from './errors';
+import { base64UrlDecode, base64UrlToBytes, decodeJwt, IdTokenClaims } from './jwt';
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+}
+
+interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string; use?: string })[];
+}
+
+interface VerifyAlgorithm {
+  kty: 'RSA' | 'EC';
+  import: RsaHashedImportParams | EcKeyImportParams;
+  verify: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+const SUPPORTED_ALGORITHMS: Record<string, VerifyAlgorithm> = {
+  RS256: { kty: 'RSA', import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: 'RSASSA-PKCS1-v1_5' },
+  RS384: { kty: 'RSA', import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verify: 'RSASSA-PKCS1-v1_5' },
+  RS512: { kty: 'RSA', import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verify: 'RSASSA-PKCS1-v1_5' },
+  PS256: { kty: 'RSA', import: { name: 'RSA-PSS', hash: 'SHA-256' }, verify: { name: 'RSA-PSS', saltLength: 32 } },
+  PS384: { kty: 'RSA', import: { name: 'RSA-PSS', hash: 'SHA-384' }, verify: { name: 'RSA-PSS', saltLength: 48 } },
+  PS512: { kty: 'RSA', import: { name: 'RSA-PSS', hash: 'SHA-512' }, verify: { name: 'RSA-PSS', saltLength: 64 } },
+  ES256: { kty: 'EC', import: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { kty: 'EC', import: { name: 'ECDSA', namedCurve: 'P-384' }, verify: { name: 'ECDSA', hash: 'SHA-384' } },
+  ES512: { kty: 'EC', import: { name: 'ECDSA', namedCurve: 'P-521' }, verify: { name: 'ECDSA', hash: 'SHA-512' } },
+};
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+export class IdTokenValidationError extends AppAuthError {}
+
+export interface IdTokenValidationOptions {
+  /**
+   * The expected `iss` claim.
+   */
+  issuer: string;
+  /**
+   * The expected `aud` (and `azp`) claim.
+   */
+  clientId: string;
+  jwksUri: string;
+  /**
+   * Tolerance for `exp` and `iat`.
+   * @default 60
+   */
+  clockSkewSeconds?: number;
+}
+
+/**
+ * Checks that the `nonce` claim of the ID token matches the nonce sent with the authorization request.
+ * @throws IdTokenValidationError if the nonce does not match
+ */
+export function validateNonce(idToken: string, nonce: string): void {
+  let claims: IdTokenClaims;
+  try {
+    claims = decodeJwt<IdTokenClaims>(idToken);
+  } catch (err) {
+    throw new IdTokenValidationError('malformed ID token', err);
+  }
+  if (claims.nonce !== nonce) {
+    throw new IdTokenValidationError('the nonce of the ID token does not match the nonce of the authorization request');
+  }
+}
+
+function withoutTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Validates ID tokens as described in
+ * https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation
+ *
+ * The JSON Web Key Set is cached and only fetched again if a token is signed with an unknown key.
+ */
+export class IdTokenValidator {
+  private readonly jwksCache: Map<string, Promise<JsonWebKeySet>> = new Map<string, Promise<JsonWebKeySet>>();
+
+  public constructor(private readonly requestor: Requestor) {}
+
+  /**
+   * @returns the claims of the valid ID token
+   * @throws IdTokenValidationError if the token is invalid
+   * @throws RequestError if the JSON Web Key Set could not be loaded (e.g. offline), the token may still be valid
+   */
+  public async validate<TClaims extends IdTokenClaims = IdTokenClaims>(
+    idToken: string,
+    options: IdTokenValidationOptions,
+  ): Promise<TClaims> {
+    const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+    let header: JwtHeader;
+    let claims: TClaims;
+    try {
+      header = JSON.parse(base64UrlDecode(encodedHeader)) as JwtHeader;
+      claims = decodeJwt<TClaims>(idToken);
+    } catch (err) {
+      throw new IdTokenValidationError('malformed ID token', err);
+    }
+
+    const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw new IdTokenValidationError(`unsupported signature algorithm ${header.alg}`);
+    }
+
+    let isValidSignature: boolean;
+    try {
+      const key = await this.findKey(options.jwksUri, header, algorithm);
+      const cryptoKey = await crypto.subtle.importKey('jwk', key, algorithm.import, false, ['verify']);
+      isValidSignature = await crypto.subtle.verify(
+        algorithm.verify,
+        cryptoKey,
+        base64UrlToBytes(encodedSignature),
+        new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+      );
+    } catch (err) {
+      if (err instanceof IdTokenValidationError || err instanceof RequestError) {
+        throw err;
+      }
+      throw new IdTokenValidationError('the ID token signature could not be verified', err);
+    }
+    if (!isValidSignature) {
+      throw new IdTokenValidationError('invalid ID token signature');
+    }
+
+    this.validateClaims(claims, options);
+    return claims;
+  }
+
+  private validateClaims(claims: IdTokenClaims, options: IdTokenValidationOptions): void {
+    if (!claims.iss || withoutTrailingSlash(claims.iss) !== withoutTrailingSlash(options.issuer)) {
+      throw new IdTokenValidationError(`unexpected issuer ${claims.iss}`);
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (audiences.indexOf(options.clientId) < 0) {
+      throw new IdTokenValidationError('the ID token is not issued for this client (aud)');
+    }
+    if ((audiences.length > 1 || claims.azp !== undefined) && claims.azp !== options.clientId) {
+      throw new IdTokenValidationError('the ID token is not issued for this client (azp)');
+    }
+
+    const now = Date.now() / 1000;
+    const clockSkew = options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+    if (typeof claims.exp !== 'number' || claims.exp + clockSkew < now) {
+      throw new IdTokenValidationError('the ID token is expired');
+    }
+    if (typeof claims.iat !== 'number' || claims.iat - clockSkew > now) {
+      throw new IdTokenValidationError('the ID token is issued in the future');
+    }
+  }
+
+  /**
+   * @returns the signing key with the kid of the header, which matches the algorithm
+   * @throws IdTokenValidationError if there is no such key or the JSON Web Key Set is invalid
+   * @throws RequestError if the JSON Web Key Set could not be loaded
+   */
+  private async findKey(jwksUri: string, header: JwtHeader, algorithm: VerifyAlgorithm): Promise<JsonWebKey> {
+    const find = (jwks: JsonWebKeySet): JsonWebKey | undefined =>
+      jwks.keys.filter(
+        key =>
+          (header.kid === undefined || key.kid === header.kid) &&
+          key.kty === algorithm.kty &&
+          (key.alg === undefined || key.alg === header.alg) &&
+          (key.use === undefined || key.use === 'sig'),
+      )[0];
+
+    const cached = this.jwksCache.get(jwksUri);
+    const key = cached && find(await cached);
+    if (key) {
+      return key;
+    }
+
+    // unknown key -> the keys may have been rotated
+    const jwks = this.requestor.xhr<JsonWebKeySet>({ url: jwksUri, dataType: 'json', method: 'GET' });
+    this.jwksCache.set(jwksUri, jwks);
+    jwks.catch(() => this.jwksCache.delete(jwksUri));
+
+    let refreshedKey: JsonWebKey | undefined;
+    try {
+      refreshedKey = find(await jwks);
+    } catch (err) {
+      // a failed request is retried with the next validation, it does not make the token invalid
+      if (err instanceof RequestError) {
+        throw err;
+      }
+      throw new IdTokenValidationError('the JSON Web Key Set is invalid', err);
+    }
+    if (!refreshedKey) {
+      throw new IdTokenValidationError(`no signing key found for kid ${header.kid}`);
+    }
+    return refreshedKey;
+  }
+}
@@ -0,0 +1,161 @@
+import {
+  AppAuthError,
+  AuthorizationError,
+  AuthorizationRequest,
+  AuthorizationRequestHandler,
+  AuthorizationRequestResponse,
+  AuthorizationServiceConfiguration,
+  BasicQueryStringUtils,
+  Crypto,
+  DefaultCrypto,
+  log,
+  QueryStringUtils,
+} from '@openid/appauth';
+import { SessionAuthorizationResponse } from './checkSessionIframe';
+
+const IFRAME_CALLBACK_MESSAGE_TYPE = 'appauth-iframe-callback';
+const DEFAULT_TIMEOUT_MILLISECONDS = 10000;
+
+/**
+ * Errors of a `prompt=none` request which just mean that the user has to log in interactively.
+ */
+const INTERACTION_REQUIRED_ERRORS = ['login_required', 'interaction_required', 'consent_required', 'account_selection_required'];
+
+interface IframeCallbackMessage {
+  type: typeof IFRAME_CALLBACK_MESSAGE_TYPE;
+  url: string;
+}
+
+export class IframeTimeoutError extends AppAuthError {}
+
+/**
+ * @returns true if the AuthorizationError means that there is no session at the identity provider
+ * (or the user has to interact with it) - so the user is simply not logged in.
+ */
+export function isInteractionRequiredError(error: AuthorizationError): boolean {
+  return INTERACTION_REQUIRED_ERRORS.indexOf(error.error) >= 0;
+}
+
+/**
+ * Call this on the page the hidden iframe gets redirected to (the silent renew redirect url).
+ * It sends the authorization response to the parent window.
+ * @returns true if the current window is a silent renew iframe
+ */
+export function completeSilentRenew(): boolean {
+  if (window.parent === window) {
+    return false;
+  }
+
+  const message: IframeCallbackMessage = { type: IFRAME_CALLBACK_MESSAGE_TYPE, url: window.location.href };
+  // the callback page has to be on the same origin as the app
+  window.parent.postMessage(message, window.location.origin);
+  return true;
+}
+
+/**
+ * Represents an AuthorizationRequestHandler which performs the code flow in a hidden iframe.
+ * This only works without user interaction, so the request should use `prompt=none`.
+ * The page at the redirect url has to call `completeSilentRenew`.
+ */
+export class IframeRequestHandler extends AuthorizationRequestHandler {
+  private result?: AuthorizationRequestResponse;
+
+  public constructor(
+    utils: QueryStringUtils = new BasicQueryStringUtils(),
+    crypto: Crypto = new DefaultCrypto(),
+    private readonly timeoutMilliseconds: number = DEFAULT_TIMEOUT_MILLISECONDS,
+  ) {
+    super(utils, crypto);
+  }
+
+  public performAuthorizationRequest(configuration: AuthorizationServiceConfiguration, request: AuthorizationRequest): void {
+    this.performSilentRequest(configuration, request)
+      .then(result => {
+        this.result = result;
+        return this.completeAuthorizationRequestIfPossible();
+      })
+      .catch(err => log('Silent authorization request failed', err));
+  }
+
+  /**
+   * Loads the authorization request in a hidden iframe and waits for the redirect.
+   * @returns the authorization response or error
+   * @throws IframeTimeoutError if the iframe did not answer in time
+   */
+  public async performSilentRequest(
+    configuration: AuthorizationServiceConfiguration,
+    request: AuthorizationRequest,
+  ): Promise<AuthorizationRequestResponse> {
+    // make sure that the code verifier is set up
+    await request.toJson();
+    const url = this.buildRequestUrl(configuration, request);
+    log('Making a silent request to ', request, url);
+
+    const iframe = document.createElement('iframe');
+    iframe.style.display = 'none';
+    iframe.setAttribute('aria-hidden', 'true');
+
+    const callbackUrl = await new Promise<string>((resolve, reject) => {
+      const timeoutId = window.setTimeout(() => {
+        window.removeEventListener('message', onMessage);
+        reject(new IframeTimeoutError('the silent authorization request timed out'));
+      }, this.timeoutMilliseconds);
+
+      function onMessage(event: MessageEvent): void {
+        const data = event.data as IframeCallbackMessage | undefined;
+        if (
+          event.origin !== window.location.origin ||
+          event.source !== iframe.contentWindow ||
+          data?.type !== IFRAME_CALLBACK_MESSAGE_TYPE
+        ) {
+          return;
+        }
+        window.removeEventListener('message', onMessage);
+        window.clearTimeout(timeoutId);
+        resolve(data.url);
+      }
+
+      window.addEventListener('message', onMessage);
+      iframe.src = url;
+      document.body.appendChild(iframe);
+    }).finally(() => iframe.remove());
+
+    const queryParams = this.utils.parseQueryString(new URL(callbackUrl).search);
+    if (queryParams.state !== request.state) {
+      throw new AppAuthError('Mismatched request (state and request_uri) dont match.');
+    }
+
+    if (queryParams.error) {
+      return {
+        request,
+        response: null,
+        error: new AuthorizationError({
+          error: queryParams.error,
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          error_description: queryParams.error_description,
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          error_uri: queryParams.error_uri,
+          state: queryParams.state,
+        }),
+      };
+    }
+    return {
+      request,
+      response: new SessionAuthorizationResponse({
+        code: queryParams.code,
+        state: queryParams.state,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        session_state: queryParams.session_state,
+      }),
+      error: null,
+    };
+  }
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  protected completeAuthorizationRequest(): Promise<AuthorizationRequestResponse | null> {
+    // only deliver a result once
+    const result = this.result;
+    this.result = undefined;
+    return Promise.resolve(result || null);
+  }
+}
@@ -2,3 +2,37 @@ export { EndSessionRequest, EndSessionRequestJson } from './endSessionRequest';
 export { EndSessionRequestHandler } from './endSessionRequestHandler';
 export { NoHashQueryStringUtils } from './noHashQueryStringUtils';
 export { RedirectEndSessionRequestHandler } from './redirectEndSessionRequestHandler';
+export { MemoryStorageBackend } from './memoryStorageBackend';
+export { SessionStorageBackend } from './sessionStorageBackend';
+export { IndexedDbStorageBackend } from './indexedDbStorageBackend';
+export { EncryptedStorageBackend } from './encryptedStorageBackend';
+export { decodeJwt, IdTokenClaims } from './jwt';
+export { OpenIdConfiguration, OpenIdConfigurationJson } from './openIdConfiguration';
+export { IdTokenValidator, IdTokenValidationError, IdTokenValidationOptions, validateNonce } from './idTokenValidator';
+export { PopupRequestHandler, PopupBlockedError, PopupClosedError, completePopupLogin } from './popupRequestHandler';
+export { IframeRequestHandler, IframeTimeoutError, completeSilentRenew, isInteractionRequiredError } from './iframeRequestHandler';
+export {
+  ConfigurableFetchRequestor,
+  FetchRequestorOptions,
+  RequestInterceptor,
+  ResponseInterceptor,
+  RetryOptions,
+  keepaliveInterceptor,
+} from './fetchRequestor';
+export { RequestError, OAuthError, OAuthErrorJson, NetworkError, TimeoutError, AbortError } from './errors';
+export { LazyStorageBackend } from './lazyStorageBackend';
+export { PrefixedStorageBackend } from './prefixedStorageBackend';
+export {
+  DeviceAuthorizationHandler,
+  DeviceAuthorization,
+  DeviceAuthorizationRequest,
+  DeviceAuthorizationResponseJson,
+  DeviceLoginCancelledError,
+  GRANT_TYPE_DEVICE_CODE,
+} from './deviceAuthorizationHandler';
+export {
+  CheckSessionIframe,
+  CheckSessionListeners,
+  SessionAuthorizationResponse,
+  SessionAuthorizationResponseJson,
+} from './checkSessionIframe';
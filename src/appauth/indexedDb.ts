@@ -0,0 +1,35 @@
+/**
+ * Wraps an IDBRequest into a Promise.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and creates if necessary) a database with a single object store.
+ */
+export function openDatabase(databaseName: string, storeName: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(databaseName, 1);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(storeName)) {
+      request.result.createObjectStore(storeName);
+    }
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Runs the given operation in a transaction on the object store and resolves with its result.
+ */
+export async function withStore<T>(
+  database: Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await database;
+  return requestToPromise(operation(db.transaction(storeName, mode).objectStore(storeName)));
+}
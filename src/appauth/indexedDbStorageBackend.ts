@@ -0,0 +1,45 @@
+import { StorageBackend } from '@openid/appauth';
+import { openDatabase, withStore } from './indexedDb';
+
+const DEFAULT_DATABASE_NAME = 'appauth';
+const DEFAULT_STORE_NAME = 'storage';
+
+/**
+ * A StorageBackend which persists all values in an IndexedDB object store.
+ */
+export class IndexedDbStorageBackend extends StorageBackend {
+  private database?: Promise<IDBDatabase>;
+
+  public constructor(
+    private readonly databaseName: string = DEFAULT_DATABASE_NAME,
+    private readonly storeName: string = DEFAULT_STORE_NAME,
+  ) {
+    super();
+  }
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  public async getItem(name: string): Promise<string | null> {
+    const value = await withStore<string | undefined>(this.open(), this.storeName, 'readonly', store => store.get(name));
+    return value === undefined ? null : value;
+  }
+
+  public async removeItem(name: string): Promise<void> {
+    await withStore(this.open(), this.storeName, 'readwrite', store => store.delete(name));
+  }
+
+  public async clear(): Promise<void> {
+    await withStore(this.open(), this.storeName, 'readwrite', store => store.clear());
+  }
+
+  public async setItem(name: string, value: string): Promise<void> {
+    await withStore(this.open(), this.storeName, 'readwrite', store => store.put(value, name));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    // open lazily, so that creating the backend has no side effects
+    if (!this.database) {
+      this.database = openDatabase(this.databaseName, this.storeName);
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * The registered claims of an OpenID Connect ID token.
+ * Extend this interface with the custom claims of your identity provider.
+ */
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  auth_time?: number;
+  nonce?: string;
+  azp?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decodes a base64url encoded value.
+ */
+export function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decodes a base64url encoded string (including UTF-8 characters).
+ */
+export function base64UrlDecode(value: string): string {
+  return new TextDecoder().decode(base64UrlToBytes(value));
+}
+
+/**
+ * Decodes the payload of a JWT.
+ * Note that this does NOT validate the signature.
+ */
+export function decodeJwt<T = Record<string, unknown>>(token: string): T {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('invalid JWT - expected three parts');
+  }
+  return JSON.parse(base64UrlDecode(parts[1])) as T;
+}
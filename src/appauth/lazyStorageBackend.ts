@@ -0,0 +1,37 @@
+import { StorageBackend } from '@openid/appauth';
+
+/**
+ * A StorageBackend which creates the actual storage on first use.
+ * This allows to create e.g. a `LocalStorageBackend` at module level in code which is also imported on the server.
+ */
+export class LazyStorageBackend extends StorageBackend {
+  private storage?: StorageBackend;
+
+  public constructor(private readonly createStorage: () => StorageBackend) {
+    super();
+  }
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  public getItem(name: string): Promise<string | null> {
+    return this.getStorage().getItem(name);
+  }
+
+  public removeItem(name: string): Promise<void> {
+    return this.getStorage().removeItem(name);
+  }
+
+  public clear(): Promise<void> {
+    return this.getStorage().clear();
+  }
+
+  public setItem(name: string, value: string): Promise<void> {
+    return this.getStorage().setItem(name, value);
+  }
+
+  private getStorage(): StorageBackend {
+    if (!this.storage) {
+      this.storage = this.createStorage();
+    }
+    return this.storage;
+  }
+}
@@ -0,0 +1,30 @@
+import { StorageBackend } from '@openid/appauth';
+
+/**
+ * A StorageBackend which keeps all values in memory only.
+ * Nothing survives a page reload, so a session can not be restored automatically.
+ */
+export class MemoryStorageBackend extends StorageBackend {
+  private readonly items: Map<string, string> = new Map<string, string>();
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  public getItem(name: string): Promise<string | null> {
+    const value = this.items.get(name);
+    return Promise.resolve(value === undefined ? null : value);
+  }
+
+  public removeItem(name: string): Promise<void> {
+    this.items.delete(name);
+    return Promise.resolve();
+  }
+
+  public clear(): Promise<void> {
+    this.items.clear();
+    return Promise.resolve();
+  }
+
+  public setItem(name: string, value: string): Promise<void> {
+    this.items.set(name, value);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,50 @@
+import { AuthorizationServiceConfiguration, AuthorizationServiceConfigurationJson, Requestor } from '@openid/appauth';
+
+/**
+ * The OpenID Connect discovery document.
+ * Contains the additional fields which AppAuth's AuthorizationServiceConfiguration drops.
+ */
+export interface OpenIdConfigurationJson extends AuthorizationServiceConfigurationJson {
+  issuer?: string;
+  jwks_uri?: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  device_authorization_endpoint?: string;
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  check_session_iframe?: string;
+}
+
+/**
+ * An AuthorizationServiceConfiguration which keeps the OpenID Connect specific fields of the discovery document.
+ */
+export class OpenIdConfiguration extends AuthorizationServiceConfiguration {
+  public issuer?: string;
+  public jwksUri?: string;
+  public deviceAuthorizationEndpoint?: string;
+  public checkSessionIframe?: string;
+
+  public constructor(request: OpenIdConfigurationJson) {
+    super(request);
+    this.issuer = request.issuer;
+    this.jwksUri = request.jwks_uri;
+    this.deviceAuthorizationEndpoint = request.device_authorization_endpoint;
+    this.checkSessionIframe = request.check_session_iframe;
+  }
+
+  public toJson(): OpenIdConfigurationJson & ReturnType<AuthorizationServiceConfiguration['toJson']> {
+    return {
+      ...super.toJson(),
+      issuer: this.issuer,
+      jwks_uri: this.jwksUri,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      device_authorization_endpoint: this.deviceAuthorizationEndpoint,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      check_session_iframe: this.checkSessionIframe,
+    };
+  }
+
+  public static fetchFromIssuer(openIdIssuerUrl: string, requestor: Requestor): Promise<OpenIdConfiguration> {
+    return requestor
+      .xhr<OpenIdConfigurationJson>({ url: `${openIdIssuerUrl}/.well-known/openid-configuration`, dataType: 'json', method: 'GET' })
+      .then(json => new OpenIdConfiguration(json));
+  }
+}
@@ -0,0 +1,187 @@
+import {
+  AppAuthError,
+  AuthorizationError,
+  AuthorizationRequest,
+  AuthorizationRequestHandler,
+  AuthorizationRequestResponse,
+  AuthorizationServiceConfiguration,
+  BasicQueryStringUtils,
+  Crypto,
+  DefaultCrypto,
+  log,
+  QueryStringUtils,
+} from '@openid/appauth';
+import { SessionAuthorizationResponse } from './checkSessionIframe';
+
+const POPUP_CALLBACK_MESSAGE_TYPE = 'appauth-popup-callback';
+const POPUP_CLOSED_POLL_MILLISECONDS = 500;
+const DEFAULT_POPUP_FEATURES = 'width=500,height=650,menubar=no,toolbar=no,location=yes,status=no';
+
+interface PopupCallbackMessage {
+  type: typeof POPUP_CALLBACK_MESSAGE_TYPE;
+  url: string;
+}
+
+interface PendingPopup {
+  popup: Window;
+  request: AuthorizationRequest;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+  intervalId: number;
+}
+
+export class PopupClosedError extends AppAuthError {}
+export class PopupBlockedError extends AppAuthError {}
+
+/**
+ * Call this on the page the popup gets redirected to (the `redirectUrl`).
+ * It sends the authorization response to the window which opened the popup and closes the popup.
+ * @returns true if the current window is a login popup
+ */
+export function completePopupLogin(): boolean {
+  if (!window.opener || window.opener === window) {
+    return false;
+  }
+
+  const message: PopupCallbackMessage = { type: POPUP_CALLBACK_MESSAGE_TYPE, url: window.location.href };
+  // the callback page has to be on the same origin as the app
+  (window.opener as Window).postMessage(message, window.location.origin);
+  window.close();
+  return true;
+}
+
+/**
+ * Represents an AuthorizationRequestHandler which performs the code flow in a popup window,
+ * so the app itself is not left.
+ * The page at the `redirectUrl` has to call `completePopupLogin`.
+ */
+export class PopupRequestHandler extends AuthorizationRequestHandler {
+  private result?: AuthorizationRequestResponse;
+  private pending?: PendingPopup;
+
+  public constructor(
+    utils: QueryStringUtils = new BasicQueryStringUtils(),
+    crypto: Crypto = new DefaultCrypto(),
+    private readonly popupFeatures: string = DEFAULT_POPUP_FEATURES,
+  ) {
+    super(utils, crypto);
+  }
+
+  public performAuthorizationRequest(configuration: AuthorizationServiceConfiguration, request: AuthorizationRequest): void {
+    this.performPopupRequest(configuration, request).catch(err => log('Popup authorization request failed', err));
+  }
+
+  /**
+   * Opens the popup and waits for the authorization response.
+   * Has to be called synchronously from a user interaction, otherwise the popup gets blocked.
+   * @returns a promise which resolves after the response was passed to the AuthorizationNotifier
+   * @throws PopupBlockedError if the popup could not be opened
+   * @throws PopupClosedError if the user closed the popup before finishing the login
+   */
+  public performPopupRequest(configuration: AuthorizationServiceConfiguration, request: AuthorizationRequest): Promise<void> {
+    this.cancelPending(new PopupClosedError('a new login popup was opened'));
+
+    // open the popup right away, as the url is only known after the PKCE challenge is created asynchronously
+    const popup = window.open('about:blank', '_blank', this.popupFeatures);
+    if (!popup) {
+      return Promise.reject(new PopupBlockedError('the login popup was blocked'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.pending = {
+        popup,
+        request,
+        resolve,
+        reject,
+        intervalId: window.setInterval(() => {
+          if (popup.closed) {
+            this.cancelPending(new PopupClosedError('the login popup was closed'));
+          }
+        }, POPUP_CLOSED_POLL_MILLISECONDS),
+      };
+      window.addEventListener('message', this.onMessage);
+
+      request
+        .toJson()
+        .then(() => {
+          const url = this.buildRequestUrl(configuration, request);
+          log('Making a request to ', request, url);
+          popup.location.href = url;
+        })
+        .catch(err => {
+          popup.close();
+          this.cancelPending(err);
+        });
+    });
+  }
+
+  private readonly onMessage = (event: MessageEvent): void => {
+    const pending = this.pending;
+    const data = event.data as PopupCallbackMessage | undefined;
+    if (
+      !pending ||
+      event.origin !== window.location.origin ||
+      event.source !== pending.popup ||
+      data?.type !== POPUP_CALLBACK_MESSAGE_TYPE
+    ) {
+      return;
+    }
+
+    const queryParams = this.utils.parseQueryString(new URL(data.url).search);
+    if (queryParams.state !== pending.request.state) {
+      log('Mismatched request (state and request_uri) dont match.');
+      return;
+    }
+
+    this.removePending();
+    if (queryParams.error) {
+      this.result = {
+        request: pending.request,
+        response: null,
+        error: new AuthorizationError({
+          error: queryParams.error,
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          error_description: queryParams.error_description,
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          error_uri: queryParams.error_uri,
+          state: queryParams.state,
+        }),
+      };
+    } else {
+      this.result = {
+        request: pending.request,
+        response: new SessionAuthorizationResponse({
+          code: queryParams.code,
+          state: queryParams.state,
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          session_state: queryParams.session_state,
+        }),
+        error: null,
+      };
+    }
+    this.completeAuthorizationRequestIfPossible().then(pending.resolve, pending.reject);
+  };
+
+  private cancelPending(err: unknown): void {
+    const pending = this.removePending();
+    pending?.reject(err);
+  }
+
+  private removePending(): PendingPopup | undefined {
+    const pending = this.pending;
+    if (pending) {
+      window.removeEventListener('message', this.onMessage);
+      clearInterval(pending.intervalId);
+      this.pending = undefined;
+    }
+    return pending;
+  }
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  protected completeAuthorizationRequest(): Promise<AuthorizationRequestResponse | null> {
+    // only deliver a result once
+    const result = this.result;
+    this.result = undefined;
+    return Promise.resolve(result || null);
+  }
+}
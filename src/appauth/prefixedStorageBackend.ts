@@ -0,0 +1,37 @@
+import { StorageBackend } from '@openid/appauth';
+
+/**
+ * A StorageBackend which prefixes all keys, so several instances can share the same underlying storage.
+ */
+export class PrefixedStorageBackend extends StorageBackend {
+  private readonly usedNames: Set<string> = new Set<string>();
+
+  public constructor(private readonly storage: StorageBackend, private readonly prefix: string) {
+    super();
+  }
+
+  // eslint-disable-next-line @rushstack/no-new-null
+  public getItem(name: string): Promise<string | null> {
+    return this.storage.getItem(this.prefix + name);
+  }
+
+  public removeItem(name: string): Promise<void> {
+    this.usedNames.delete(name);
+    return this.storage.removeItem(this.prefix + name);
+  }
+
+  /**
+   * Removes the items set through this instance.
+   * Items of a previous page load are not known, as the underlying storage can not be enumerated.
+   */
+  public async clear(): Promise<void> {
+    const names: string[] = [];
+    this.usedNames.forEach(name => names.push(name));
+    await Promise.all(names.map(name => this.removeItem(name)));
+  }
+
+  public setItem(name: string, value: string): Promise<void> {
+    this.usedNames.add(name);
+    return this.storage.setItem(this.prefix + name, value);
+  }
+}
@@ -13,6 +13,7 @@
  */
 
 import {
+  AppAuthError,
   AuthorizationServiceConfiguration,
   BasicQueryStringUtils,
   LocalStorageBackend,
@@ -20,12 +21,15 @@ import {
   log,
   StorageBackend,
 } from '@openid/appauth';
-import { EndSessionRequest } from './endSessionRequest';
+import { EndSessionRequest, EndSessionRequestJson } from './endSessionRequest';
 import { EndSessionRequestHandler } from './endSessionRequestHandler';
 
+/** key in storage which represents the current end session request. */
+const END_SESSION_REQUEST_KEY = 'appauth_current_end_session_request';
+
 /**
- * Represents an AuthorizationRequestHandler which uses a standard
- * redirect based code flow.
+ * Represents an EndSessionRequestHandler which uses a standard
+ * redirect based flow.
  */
 export class RedirectEndSessionRequestHandler extends EndSessionRequestHandler {
   public constructor(
@@ -40,12 +44,44 @@ export class RedirectEndSessionRequestHandler extends EndSessionRequestHandler {
   }
 
   public performEndSessionRequest(configuration: AuthorizationServiceConfiguration, request: EndSessionRequest): void {
-    // before you make request, clear the storage.
-    void this.storageBackend.clear().then(() => {
+    // remember the state to verify it after the redirect back, the ID token hint is not stored
+    const storedRequest: EndSessionRequestJson = {
+      client_id: request.clientId,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      post_logout_redirect_uri: request.postLogoutRedirectUri,
+      state: request.state,
+    };
+    void this.storageBackend.setItem(END_SESSION_REQUEST_KEY, JSON.stringify(storedRequest)).then(() => {
       // make the redirect request
       const url = this.buildRequestUrl(configuration, request);
       log('Making a request to ', request, url);
       this.locationLike.assign(url);
     });
   }
+
+  /**
+   * The stored request is removed in any case, the identity provider only redirects back once.
+   * The returned request only contains the client id, post logout redirect uri and state.
+   * @throws AppAuthError if the state of the response does not match the request
+   */
+  public async completeEndSessionRequestIfPossible(): Promise<EndSessionRequest | undefined> {
+    const stored = await this.storageBackend.getItem(END_SESSION_REQUEST_KEY);
+    if (!stored) {
+      return undefined;
+    }
+    await this.storageBackend.removeItem(END_SESSION_REQUEST_KEY);
+
+    const request = new EndSessionRequest(JSON.parse(stored) as EndSessionRequestJson);
+    const { state, code, error } = this.utils.parse(this.locationLike, false);
+    // an authorization response also has a state
+    if (!state || code || error) {
+      log('No end session response found.');
+      return undefined;
+    }
+
+    if (state !== request.state) {
+      throw new AppAuthError('the state of the end session response does not match the request');
+    }
+    return request;
+  }
 }
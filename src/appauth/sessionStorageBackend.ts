@@ -0,0 +1,11 @@
+import { LocalStorageBackend } from '@openid/appauth';
+
+/**
+ * A StorageBackend which uses window.sessionStorage.
+ * Values are bound to the current tab and are removed when it is closed.
+ */
+export class SessionStorageBackend extends LocalStorageBackend {
+  public constructor() {
+    super(window.sessionStorage);
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  AuthorizationServiceConfiguration,
+  BaseTokenRequestHandler,
+  GRANT_TYPE_AUTHORIZATION_CODE,
+  GRANT_TYPE_REFRESH_TOKEN,
+  Requestor,
+  RevokeTokenRequest,
+  StringMap,
+  TokenRequest,
+  TokenResponse,
+  TokenTypeHint,
+} from '@openid/appauth';
+import { EndSessionRequest } from '../appauth/endSessionRequest';
+import { EndSessionRequestHandler } from '../appauth/endSessionRequestHandler';
+
+export async function performTokenRequest(
+  configuration: AuthorizationServiceConfiguration,
+  clientId: string,
+  redirectUrl: string,
+  code: string,
+  extras: StringMap | undefined,
+  requestor: Requestor,
+): Promise<TokenResponse> {
+  // A. First, you need to create a token request object
+  const tokenRequest = new TokenRequest({
+    client_id: clientId,
+    redirect_uri: redirectUrl,
+    grant_type: GRANT_TYPE_AUTHORIZATION_CODE,
+    code: code,
+    extras,
+  });
+
+  // B. Hit `/token` endpoint and get token
+  const tokenHandler = new BaseTokenRequestHandler(requestor);
+  return tokenHandler.performTokenRequest(configuration, tokenRequest);
+}
+
+export async function performRefreshTokenRequest(
+  configuration: AuthorizationServiceConfiguration,
+  clientId: string,
+  redirectUrl: string,
+  refreshToken: string | undefined,
+  extras: StringMap | undefined,
+  requestor: Requestor,
+): Promise<TokenResponse> {
+  const tokenRequest = new TokenRequest({
+    client_id: clientId,
+    redirect_uri: redirectUrl,
+    grant_type: GRANT_TYPE_REFRESH_TOKEN,
+    code: undefined,
+    refresh_token: refreshToken,
+    extras,
+  });
+
+  const tokenHandler = new BaseTokenRequestHandler(requestor);
+  return tokenHandler.performTokenRequest(configuration, tokenRequest);
+}
+
+export const GRANT_TYPE_TOKEN_EXCHANGE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+export const TOKEN_TYPE_ACCESS_TOKEN = 'urn:ietf:params:oauth:token-type:access_token';
+
+/**
+ * Exchanges the given access token for a token of another audience (https://datatracker.ietf.org/doc/html/rfc8693).
+ */
+export async function performTokenExchangeRequest(
+  configuration: AuthorizationServiceConfiguration,
+  clientId: string,
+  redirectUrl: string,
+  subjectToken: string,
+  extras: StringMap | undefined,
+  requestor: Requestor,
+): Promise<TokenResponse> {
+  const tokenRequest = new TokenRequest({
+    client_id: clientId,
+    redirect_uri: redirectUrl,
+    grant_type: GRANT_TYPE_TOKEN_EXCHANGE,
+    code: undefined,
+    extras: {
+      ...extras,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      subject_token: subjectToken,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      subject_token_type: TOKEN_TYPE_ACCESS_TOKEN,
+    },
+  });
+
+  const tokenHandler = new BaseTokenRequestHandler(requestor);
+  return tokenHandler.performTokenRequest(configuration, tokenRequest);
+}
+
+export async function performRevokeTokenRequest(
+  configuration: AuthorizationServiceConfiguration,
+  clientId: string,
+  token: string,
+  tokenTypeHint: TokenTypeHint,
+  requestor: Requestor,
+): Promise<boolean> {
+  if (!configuration.revocationEndpoint) {
+    throw new Error('the identity provider does not provide a revocation_endpoint');
+  }
+
+  const revokeTokenRequest = new RevokeTokenRequest({
+    client_id: clientId,
+    token,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    token_type_hint: tokenTypeHint,
+  });
+
+  const tokenHandler = new BaseTokenRequestHandler(requestor);
+  return tokenHandler.performRevokeTokenRequest(configuration, revokeTokenRequest);
+}
+
+export async function performUserInfoRequest<T>(
+  configuration: AuthorizationServiceConfiguration,
+  accessToken: string,
+  requestor: Requestor,
+): Promise<T> {
+  if (!configuration.userInfoEndpoint) {
+    throw new Error('the identity provider does not provide a userinfo_endpoint');
+  }
+
+  return requestor.xhr<T>({
+    url: configuration.userInfoEndpoint,
+    method: 'GET',
+    dataType: 'json',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+}
+
+export function performEndSessionRequest(
+  endSessionHandler: EndSessionRequestHandler,
+  configuration: AuthorizationServiceConfiguration,
+  clientId: string,
+  postLogoutRedirectUrl: string,
+  idToken: string | undefined,
+  extras?: StringMap,
+  options?: {
+    logoutHint?: string;
+    uiLocales?: string;
+  },
+): void {
+  endSessionHandler.performEndSessionRequest(
+    configuration,
+    new EndSessionRequest({
+      client_id: clientId,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      post_logout_redirect_uri: postLogoutRedirectUrl,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      id_token_hint: idToken,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      logout_hint: options?.logoutHint,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      ui_locales: options?.uiLocales,
+      extras,
+    }),
+  );
+}
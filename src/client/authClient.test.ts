@@ -0,0 +1,550 @@
+import { AppAuthError, StorageBackend } from '@openid/appauth';
+import { AuthClient, AuthClientOptions, AuthClientState, AuthenticateOptions, ErrorAction, MemoryStorageBackend } from '../index';
+import { FakeLocation, FakeOidcProvider } from '../testing';
+import { TabSync } from './tabSync';
+
+const APP_URL = 'https://app.example.test/';
+
+function createClient(
+  provider: FakeOidcProvider,
+  location: FakeLocation,
+  storage: StorageBackend,
+  options?: Partial<AuthenticateOptions>,
+  clientOptions?: Partial<AuthClientOptions>,
+): AuthClient {
+  const client = new AuthClient({ ...provider.createClientOptions({ location, storage, options }), ...clientOptions });
+  client.start();
+  return client;
+}
+
+function waitForState(client: AuthClient, predicate: (state: AuthClientState) => boolean): Promise<AuthClientState> {
+  return new Promise(resolve => {
+    let unsubscribe = (): void => undefined;
+    const check = (state: AuthClientState): void => {
+      if (predicate(state)) {
+        unsubscribe();
+        resolve(state);
+      }
+    };
+    unsubscribe = client.subscribe(check);
+    check(client.getState());
+  });
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Logs in with a redirect and returns the client of the page the identity provider redirected back to.
+ */
+async function login(
+  provider: FakeOidcProvider,
+  storage: StorageBackend,
+  options?: Partial<AuthenticateOptions>,
+  clientOptions?: Partial<AuthClientOptions>,
+): Promise<AuthClient> {
+  const location = provider.createLocation(APP_URL);
+  const client = createClient(provider, location, storage, options, clientOptions);
+  await waitForState(client, state => state.isReady);
+
+  const navigation = location.nextNavigation();
+  await client.login();
+  await navigation;
+  client.stop();
+
+  const redirectedClient = createClient(provider, location, storage, options, clientOptions);
+  await waitForState(redirectedClient, state => state.isReady);
+  return redirectedClient;
+}
+
+describe('AuthClient with a FakeOidcProvider', () => {
+  let provider: FakeOidcProvider;
+  let storage: MemoryStorageBackend;
+  const clients: AuthClient[] = [];
+
+  beforeEach(() => {
+    provider = new FakeOidcProvider({ claims: { sub: '42', name: 'Jane' } });
+    storage = new MemoryStorageBackend();
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach(client => client.stop());
+  });
+
+  it('logs in with the authorization code flow and PKCE', async () => {
+    const client = await login(provider, storage, { usePkce: true });
+    clients.push(client);
+
+    const state = client.getState();
+    expect(state.isLoggedIn).toBe(true);
+    expect(state.token).toBe('fake-access-token-2');
+    expect(state.user).toMatchObject({ sub: '42', name: 'Jane' });
+    expect(state.grantedScopes).toEqual(['openid', 'offline_access']);
+    expect(provider.isSessionActive).toBe(true);
+  });
+
+  it('sets the loginError if the code exchange fails', async () => {
+    const onError = jest.fn();
+    const fetch: typeof window.fetch = (input, init) =>
+      String(init?.body).indexOf('grant_type=authorization_code') < 0
+        ? provider.fetch(input, init)
+        : Promise.resolve({
+            status: 400,
+            headers: { get: () => 'application/json' },
+            json: () => Promise.resolve({ error: 'invalid_grant' }),
+          } as unknown as Response);
+
+    const client = await login(provider, storage, undefined, { fetch, onError });
+    clients.push(client);
+
+    expect(client.getState().isLoggedIn).toBe(false);
+    expect(client.getState().loginError).toMatchObject({ error: 'invalid_grant' });
+    expect(onError).toHaveBeenCalledWith(client.getState().loginError, ErrorAction.HANDLE_AUTHORIZATION_RESPONSE);
+  });
+
+  it('restores the login state of the last login only', async () => {
+    const abandonedLocation = provider.createLocation(APP_URL);
+    const abandonedClient = createClient(provider, abandonedLocation, storage);
+    await waitForState(abandonedClient, state => state.isReady);
+    const abandonedNavigation = abandonedLocation.nextNavigation();
+    await abandonedClient.login({ returnTo: '/abandoned' });
+    await abandonedNavigation;
+    abandonedClient.stop();
+
+    const location = provider.createLocation(APP_URL);
+    const client = createClient(provider, location, storage);
+    await waitForState(client, state => state.isReady);
+    const navigation = location.nextNavigation();
+    await client.login({ returnTo: '/orders' });
+    await navigation;
+    client.stop();
+
+    const onLoginComplete = jest.fn();
+    const redirectedClient = createClient(provider, location, storage, undefined, { onLoginComplete });
+    clients.push(redirectedClient);
+    await waitForState(redirectedClient, state => state.isLoggedIn);
+
+    expect(onLoginComplete).toHaveBeenCalledWith({ returnTo: '/orders' });
+    expect(await storage.getItem(`${provider.issuer}|fake-client|AUTH_LOGIN_STATE`)).toBeNull();
+  });
+
+  it('refreshes the tokens with the rotated refresh token', async () => {
+    const client = await login(provider, storage);
+    clients.push(client);
+    const firstToken = client.getState().token;
+
+    await client.checkToken(true);
+    await client.checkToken(true);
+
+    expect(client.getState().token).not.toBe(firstToken);
+    const refreshTokens = provider.requests
+      .filter(request => request.body.grant_type === 'refresh_token')
+      .map(request => request.body.refresh_token);
+    expect(refreshTokens).toEqual(['fake-refresh-token-3', 'fake-refresh-token-5']);
+    expect(client.getState().isLoggedIn).toBe(true);
+  });
+
+  it('restores the session with the saved refresh token', async () => {
+    clients.push(await login(provider, storage));
+
+    const reloadedClient = createClient(provider, provider.createLocation(APP_URL), storage);
+    clients.push(reloadedClient);
+    const state = await waitForState(reloadedClient, current => current.isReady);
+
+    expect(state.isLoggedIn).toBe(true);
+    expect(state.user).toMatchObject({ sub: '42' });
+  });
+
+  it('keeps the rotated refresh token if the ID token of the refresh is rejected', async () => {
+    clients.push(await login(provider, storage));
+
+    // the FakeOidcProvider has no jwks_uri, so the validation fails after the refresh token was rotated
+    const onError = jest.fn();
+    const validatingClient = createClient(provider, provider.createLocation(APP_URL), storage, { validateIdToken: true }, { onError });
+    clients.push(validatingClient);
+    expect((await waitForState(validatingClient, state => state.isReady)).isLoggedIn).toBe(false);
+    expect(onError).toHaveBeenCalledWith(expect.any(AppAuthError), ErrorAction.VALIDATE_ID_TOKEN);
+
+    const reloadedClient = createClient(provider, provider.createLocation(APP_URL), storage);
+    clients.push(reloadedClient);
+    expect((await waitForState(reloadedClient, state => state.isReady)).isLoggedIn).toBe(true);
+  });
+
+  it('keeps the granted scopes of the saved refresh token', async () => {
+    clients.push(await login(provider, storage));
+    // the refresh response omits the scope, so the scopes granted before the reload apply
+    const fetch: typeof window.fetch = async (input, init) => {
+      const response = await provider.fetch(input, init);
+      if (String(init?.body).indexOf('grant_type=refresh_token') < 0) {
+        return response;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { scope, ...json } = (await response.json()) as Record<string, unknown>;
+      return { status: response.status, headers: response.headers, json: () => Promise.resolve(json) } as Response;
+    };
+
+    const reloadedClient = createClient(
+      provider,
+      provider.createLocation(APP_URL),
+      storage,
+      { scope: 'openid offline_access orders' },
+      { fetch },
+    );
+    clients.push(reloadedClient);
+    const state = await waitForState(reloadedClient, current => current.isReady);
+
+    expect(state.isLoggedIn).toBe(true);
+    expect(state.grantedScopes).toEqual(['openid', 'offline_access']);
+  });
+
+  it('migrates the unprefixed refresh token of a previous version only if enabled', async () => {
+    clients.push(await login(provider, storage));
+    const legacyStorage = new MemoryStorageBackend();
+    await legacyStorage.setItem('AUTH_REFRESH_TOKEN', 'fake-refresh-token-3');
+
+    const otherClient = createClient(provider, provider.createLocation(APP_URL), legacyStorage, { storageKeyPrefix: 'other|' });
+    clients.push(otherClient);
+    expect((await waitForState(otherClient, state => state.isReady)).isLoggedIn).toBe(false);
+    expect(await legacyStorage.getItem('AUTH_REFRESH_TOKEN')).toBe('fake-refresh-token-3');
+
+    const migratingClient = createClient(provider, provider.createLocation(APP_URL), legacyStorage, {
+      migrateUnprefixedRefreshToken: true,
+    });
+    clients.push(migratingClient);
+    expect((await waitForState(migratingClient, state => state.isReady)).isLoggedIn).toBe(true);
+    expect(await legacyStorage.getItem('AUTH_REFRESH_TOKEN')).toBeNull();
+  });
+
+  it('sends the refresh token of getToken and of a refresh one after another', async () => {
+    const client = await login(provider, storage, { audienceTokenGrant: 'refreshToken' });
+    clients.push(client);
+
+    await Promise.all([client.getToken({ audience: 'orders' }), client.checkToken(true)]);
+
+    const refreshTokens = provider.requests
+      .filter(request => request.body.grant_type === 'refresh_token')
+      .map(request => request.body.refresh_token);
+    expect(refreshTokens).toEqual(['fake-refresh-token-3', 'fake-refresh-token-5']);
+    expect(client.getState().isLoggedIn).toBe(true);
+  });
+
+  it('expires the session if the refresh token is revoked', async () => {
+    const client = await login(provider, storage);
+    clients.push(client);
+    const onSessionExpired = jest.fn();
+    client.events.on('sessionExpired', onSessionExpired);
+
+    provider.revokeAllTokens();
+    await client.checkToken(true);
+
+    expect(client.getState().isLoggedIn).toBe(false);
+    expect(onSessionExpired).toHaveBeenCalledWith(expect.objectContaining({ reason: 'invalid_grant' }));
+  });
+
+  it('reports a failed automatic refresh and refreshes again', async () => {
+    const onError = jest.fn();
+    const client = await login(provider, storage, undefined, { onError });
+    clients.push(client);
+    const error = new Error('fake storage error');
+    const renewTokens = jest.spyOn(client as unknown as { renewTokens: () => Promise<unknown> }, 'renewTokens').mockRejectedValue(error);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 3600 * 1000);
+
+    try {
+      window.dispatchEvent(new Event('focus'));
+      await wait(0);
+      window.dispatchEvent(new Event('focus'));
+      await wait(0);
+
+      expect(onError).toHaveBeenCalledWith(error, ErrorAction.REFRESH_TOKEN_REQUEST);
+      expect(renewTokens).toHaveBeenCalledTimes(2);
+    } finally {
+      now.mockRestore();
+      renewTokens.mockRestore();
+    }
+  });
+
+  it('logs out at the identity provider and revokes the refresh token', async () => {
+    const client = await login(provider, storage, { revokeTokens: true });
+    clients.push(client);
+
+    await client.logout();
+
+    expect(client.getState().isLoggedIn).toBe(false);
+    expect(provider.isSessionActive).toBe(false);
+    expect(provider.revokedTokens).toEqual(['fake-refresh-token-3']);
+    expect(await storage.getItem(`${provider.issuer}|fake-client|AUTH_REFRESH_TOKEN`)).toBeNull();
+  });
+
+  it('retries the revocation of the refresh token after a network error', async () => {
+    let isRevocationFailing = true;
+    const fetch = jest.fn((input: RequestInfo, init?: RequestInit): Promise<Response> => {
+      if (isRevocationFailing && String(input) === provider.configuration.revocation_endpoint) {
+        isRevocationFailing = false;
+        return Promise.reject(new TypeError('Failed to fetch'));
+      }
+      return provider.fetch(input, init);
+    });
+    const client = await login(provider, storage, { revokeTokens: true }, { fetch, retry: { initialDelayMilliseconds: 0 } });
+    clients.push(client);
+
+    await client.logout();
+    // the revocation is not awaited by the logout
+    await wait(10);
+
+    expect(isRevocationFailing).toBe(false);
+    expect(provider.revokedTokens).toEqual(['fake-refresh-token-3']);
+  });
+
+  describe('after the redirect back from the logout', () => {
+    const END_SESSION_REQUEST_KEY = 'appauth_current_end_session_request';
+    const logoutOptions: Partial<AuthenticateOptions> = { postLogoutRedirectUrl: APP_URL };
+
+    async function logout(): Promise<FakeLocation> {
+      const client = await login(provider, storage, logoutOptions);
+      const location = provider.createLocation(APP_URL);
+      const loggedOutClient = createClient(provider, location, storage, logoutOptions);
+      await waitForState(loggedOutClient, state => state.isReady);
+      client.stop();
+
+      const navigation = location.nextNavigation();
+      await loggedOutClient.logout();
+      await navigation;
+      loggedOutClient.stop();
+      return location;
+    }
+
+    it('does not store the ID token with the request', async () => {
+      await logout();
+
+      const stored = JSON.parse((await storage.getItem(END_SESSION_REQUEST_KEY)) || '{}') as Record<string, unknown>;
+      expect(stored.state).toEqual(expect.any(String));
+      expect(stored).not.toHaveProperty('id_token_hint');
+    });
+
+    it('completes the logout', async () => {
+      const location = await logout();
+      const onLogoutComplete = jest.fn();
+
+      const client = createClient(provider, location, storage, logoutOptions, { onLogoutComplete });
+      clients.push(client);
+      await waitForState(client, state => state.isReady);
+
+      expect(onLogoutComplete).toHaveBeenCalledTimes(1);
+      expect(await storage.getItem(END_SESSION_REQUEST_KEY)).toBeNull();
+    });
+
+    it('reports a mismatched state', async () => {
+      await logout();
+      const onError = jest.fn();
+      const onLogoutComplete = jest.fn();
+
+      const location = provider.createLocation(`${APP_URL}?state=other`);
+      const client = createClient(provider, location, storage, logoutOptions, { onError, onLogoutComplete });
+      clients.push(client);
+      await waitForState(client, state => state.isReady);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(AppAuthError), ErrorAction.COMPLETE_END_SESSION_REQUEST);
+      expect(onLogoutComplete).not.toHaveBeenCalled();
+      expect(await storage.getItem(END_SESSION_REQUEST_KEY)).toBeNull();
+    });
+
+    it('removes the request if the identity provider did not redirect back', async () => {
+      await logout();
+
+      const client = createClient(provider, provider.createLocation(APP_URL), storage, logoutOptions);
+      clients.push(client);
+      await waitForState(client, state => state.isReady);
+
+      expect(await storage.getItem(END_SESSION_REQUEST_KEY)).toBeNull();
+    });
+  });
+
+  describe('on the front-channel logout page', () => {
+    const FRONT_CHANNEL_LOGOUT_URL = 'http://localhost/frontchannel-logout';
+    const frontChannelOptions: Partial<AuthenticateOptions> = { frontChannelLogoutUrl: FRONT_CHANNEL_LOGOUT_URL };
+    let refreshTokenKey: string;
+
+    beforeEach(() => {
+      provider.claims = { sub: '42', sid: 'fake-session' };
+      refreshTokenKey = `${provider.issuer}|fake-client|AUTH_REFRESH_TOKEN`;
+    });
+
+    afterEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    async function openLogoutPage(sessionId: string, options?: Partial<AuthenticateOptions>): Promise<void> {
+      window.history.replaceState(null, '', `${FRONT_CHANNEL_LOGOUT_URL}?iss=${encodeURIComponent(provider.issuer)}&sid=${sessionId}`);
+      const client = createClient(provider, provider.createLocation(APP_URL), storage, { ...frontChannelOptions, ...options });
+      clients.push(client);
+      await waitForState(client, state => state.isReady);
+    }
+
+    it('clears the session with the sid of the request', async () => {
+      clients.push(await login(provider, storage, frontChannelOptions));
+
+      await openLogoutPage('fake-session');
+
+      expect(await storage.getItem(refreshTokenKey)).toBeNull();
+    });
+
+    it('ignores the request of another session', async () => {
+      clients.push(await login(provider, storage, frontChannelOptions));
+
+      await openLogoutPage('other-session');
+
+      expect(await storage.getItem(refreshTokenKey)).not.toBeNull();
+    });
+
+    it('expires the session of the other tabs', async () => {
+      const tabOptions: Partial<AuthenticateOptions> = { ...frontChannelOptions, synchronizeTabs: true };
+      const otherTab = await login(provider, storage, tabOptions);
+      clients.push(otherTab);
+      const onSessionExpired = jest.fn();
+      otherTab.events.on('sessionExpired', onSessionExpired);
+
+      await openLogoutPage('fake-session', tabOptions);
+      await waitForState(otherTab, state => !state.isLoggedIn);
+
+      expect(onSessionExpired).toHaveBeenCalledWith({ reason: 'sessionEnded' });
+    });
+  });
+
+  describe('with silentRenew', () => {
+    const silentRenewOptions: Partial<AuthenticateOptions> = {
+      silentRenew: { redirectUrl: `${APP_URL}silent-renew`, timeoutMilliseconds: 100 },
+    };
+    let appendChild: jest.SpyInstance;
+
+    beforeEach(() => {
+      appendChild = jest.spyOn(document.body, 'appendChild');
+    });
+
+    afterEach(() => {
+      appendChild.mockRestore();
+    });
+
+    it('tries to restore the session of the identity provider on page load', async () => {
+      const client = createClient(provider, provider.createLocation(APP_URL), storage, silentRenewOptions, { onError: jest.fn() });
+      clients.push(client);
+      await waitForState(client, state => state.isReady);
+
+      expect(appendChild).toHaveBeenCalledWith(expect.any(HTMLIFrameElement));
+    });
+
+    it('does not restore the session after a local logout', async () => {
+      const client = await login(provider, storage, silentRenewOptions);
+      clients.push(client);
+      await client.logoutLocal();
+      appendChild.mockClear();
+
+      const reloadedClient = createClient(provider, provider.createLocation(APP_URL), storage, silentRenewOptions);
+      clients.push(reloadedClient);
+      const state = await waitForState(reloadedClient, current => current.isReady);
+
+      expect(state.isLoggedIn).toBe(false);
+      expect(appendChild).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with loadUserInfo', () => {
+    /**
+     * Answers the userinfo request with the given claims.
+     */
+    function createUserInfoFetch(userInfo: Record<string, unknown>): typeof fetch {
+      return (input, init) => {
+        if (String(input).endsWith('/userinfo')) {
+          provider.claims = userInfo;
+        }
+        return provider.fetch(input, init);
+      };
+    }
+
+    it('adds the userinfo claims without changing the identity of the ID token', async () => {
+      const fetch = createUserInfoFetch({ sub: '42', iss: 'https://other.example.test', name: 'Jane Doe' });
+      const client = await login(provider, storage, { loadUserInfo: true }, { fetch });
+      clients.push(client);
+
+      const state = await waitForState(client, current => current.user?.name === 'Jane Doe');
+      expect(state.user).toMatchObject({ sub: '42', iss: provider.issuer });
+    });
+
+    it('rejects the userinfo response of another user', async () => {
+      const onError = jest.fn();
+      const errorReported = new Promise(resolve => onError.mockImplementation(resolve));
+      const fetch = createUserInfoFetch({ sub: '43', name: 'Mallory' });
+      const client = await login(provider, storage, { loadUserInfo: true }, { fetch, onError });
+      clients.push(client);
+
+      await errorReported;
+      expect(onError).toHaveBeenCalledWith(expect.any(AppAuthError), ErrorAction.LOAD_USER_INFO);
+      expect(client.getState().user).toMatchObject({ sub: '42', name: 'Jane' });
+    });
+  });
+
+  describe('with synchronizeTabs', () => {
+    // the first tab is elected as leader after this delay
+    const ELECTION_MILLISECONDS = 600;
+
+    it('keeps the age of the tokens of another tab', async () => {
+      const client = await login(provider, storage, { synchronizeTabs: true });
+      clients.push(client);
+      await wait(ELECTION_MILLISECONDS);
+
+      const otherTab = new TabSync(`AUTH_TAB_SYNC|${provider.issuer}|fake-client|`, new MemoryStorageBackend());
+      otherTab.start();
+      /* eslint-disable @typescript-eslint/naming-convention */
+      otherTab.publishTokens({
+        access_token: 'fake-old-access-token',
+        refresh_token: 'fake-refresh-token-3',
+        issued_at: Math.floor(Date.now() / 1000) - 3600,
+        expires_in: '3600',
+      });
+      /* eslint-enable @typescript-eslint/naming-convention */
+      await waitForState(client, state => state.token === 'fake-old-access-token');
+      otherTab.stop();
+
+      // the token of the other tab is already expired
+      await client.checkToken();
+      expect(provider.requests.filter(request => request.body.grant_type === 'refresh_token')).toHaveLength(1);
+    });
+
+    it('lets only the leader refresh and applies its tokens once', async () => {
+      const leader = await login(provider, storage, { synchronizeTabs: true });
+      clients.push(leader);
+      await wait(ELECTION_MILLISECONDS);
+
+      const otherTab = createClient(provider, provider.createLocation(APP_URL), storage, { synchronizeTabs: true });
+      clients.push(otherTab);
+      await waitForState(otherTab, state => state.isReady);
+      expect(otherTab.getState().token).toBe(leader.getState().token);
+
+      const onTokenRefreshed = jest.fn();
+      otherTab.events.on('tokenRefreshed', onTokenRefreshed);
+      await otherTab.checkToken(true);
+
+      expect(provider.requests.filter(request => request.body.grant_type === 'refresh_token')).toHaveLength(1);
+      expect(onTokenRefreshed).toHaveBeenCalledTimes(1);
+      expect(otherTab.getState().token).toBe(leader.getState().token);
+    });
+
+    it('sends the refresh token rotated by getToken to the other tabs', async () => {
+      const tabOptions: Partial<AuthenticateOptions> = { synchronizeTabs: true, audienceTokenGrant: 'refreshToken' };
+      const leader = await login(provider, storage, tabOptions);
+      clients.push(leader);
+      await wait(ELECTION_MILLISECONDS);
+
+      const otherTab = createClient(provider, provider.createLocation(APP_URL), storage, tabOptions);
+      clients.push(otherTab);
+      await waitForState(otherTab, state => state.isReady);
+      await otherTab.getToken({ audience: 'orders' });
+      // the BroadcastChannel delivers the message asynchronously
+      await wait(50);
+      await leader.checkToken(true);
+
+      expect(provider.requests.filter(request => request.body.grant_type === 'refresh_token')).toHaveLength(2);
+      expect(leader.getState().isLoggedIn).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,1774 @@
+import {
+  AppAuthError,
+  AuthorizationNotifier,
+  AuthorizationRequest,
+  AuthorizationRequestHandler,
+  AuthorizationResponse,
+  DefaultCrypto,
+  LocalStorageBackend,
+  RedirectRequestHandler,
+  Requestor,
+  StorageBackend,
+  StringMap,
+  TokenResponse,
+  TokenTypeHint,
+} from '@openid/appauth';
+import {
+  DeviceAuthorization,
+  DeviceAuthorizationHandler,
+  DeviceLoginCancelledError,
+  toDeviceAuthorization,
+} from '../appauth/deviceAuthorizationHandler';
+import { EndSessionRequestHandler } from '../appauth/endSessionRequestHandler';
+import { OAuthError, RequestError } from '../appauth/errors';
+import {
+  ConfigurableFetchRequestor,
+  DEFAULT_RETRY_METHODS,
+  keepaliveInterceptor,
+  RequestInterceptor,
+  ResponseInterceptor,
+  RetryOptions,
+} from '../appauth/fetchRequestor';
+import { LazyStorageBackend } from '../appauth/lazyStorageBackend';
+import { PrefixedStorageBackend } from '../appauth/prefixedStorageBackend';
+import { IdTokenValidationError, IdTokenValidator, validateNonce } from '../appauth/idTokenValidator';
+import { IframeRequestHandler, isInteractionRequiredError } from '../appauth/iframeRequestHandler';
+import { CheckSessionIframe, SessionAuthorizationResponse } from '../appauth/checkSessionIframe';
+import { decodeJwt, IdTokenClaims } from '../appauth/jwt';
+import { NoHashQueryStringUtils } from '../appauth/noHashQueryStringUtils';
+import { OpenIdConfiguration } from '../appauth/openIdConfiguration';
+import { PopupRequestHandler } from '../appauth/popupRequestHandler';
+import { RedirectEndSessionRequestHandler } from '../appauth/redirectEndSessionRequestHandler';
+import {
+  performEndSessionRequest,
+  performRefreshTokenRequest,
+  performRevokeTokenRequest,
+  performTokenExchangeRequest,
+  performTokenRequest,
+  performUserInfoRequest,
+} from './api';
+import { AuthEventEmitter, AuthEventListener, TokenEvent, TokenSource } from './authEvents';
+import { singleEntry } from './mutex';
+import { TabLogoutReason, TabSync } from './tabSync';
+
+export enum ErrorAction {
+  UNKNOWN,
+  AUTO_LOGIN,
+  REFRESH_TOKEN_REQUEST,
+  FETCH_WELL_KNOWN,
+  COMPLETE_AUTHORIZATION_REQUEST,
+  HANDLE_AUTHORIZATION_RESPONSE,
+  LOAD_USER_INFO,
+  VALIDATE_ID_TOKEN,
+  VALIDATE_NONCE,
+  SILENT_RENEW,
+  COMPLETE_END_SESSION_REQUEST,
+  REVOKE_TOKEN,
+  CHECK_SESSION,
+}
+export interface AuthenticateOptions {
+  openIdConnectUrl: string;
+  clientId: string;
+  scope: string;
+  redirectUrl: string;
+  usePkce?: boolean;
+  /**
+   * Set to true if you want to handle token refresh manually (call checkToken)
+   */
+  disableTokenRefresh?: boolean;
+  /**
+   * The factor to apply when calculating the time of the next automatic token refresh.
+   * Should be < 1 to refresh the token earlier than its expiration time.
+   * This also applies when `checkToken` is called.
+   * @default 0.9
+   */
+  refreshIntervalFactor?: number;
+  /**
+   * Set to true to share the session between all tabs of the same origin.
+   * Only one tab refreshes the tokens and sends them to the other tabs, and a logout in one tab logs out all tabs.
+   * Use this if your identity provider rotates refresh tokens.
+   */
+  synchronizeTabs?: boolean;
+  /**
+   * Set to true to load the `user` from the userinfo_endpoint after each login and token refresh.
+   */
+  loadUserInfo?: boolean;
+  /**
+   * Set to true to validate the signature and the claims (iss, aud, azp, exp, iat) of each received ID token.
+   * Invalid tokens are rejected and reported with `ErrorAction.VALIDATE_ID_TOKEN`.
+   */
+  validateIdToken?: boolean;
+  /**
+   * The tolerated clock difference to the identity provider when validating `exp` and `iat` of the ID token.
+   * @default 60
+   */
+  clockSkewSeconds?: number;
+  /**
+   * Renew the tokens with a `prompt=none` authorization request in a hidden iframe if no refresh token is available.
+   * This is also used for the auto login on page load.
+   * The page at `redirectUrl` has to call `completeSilentRenew`.
+   */
+  silentRenew?: {
+    redirectUrl: string;
+    /**
+     * @default 10000
+     */
+    timeoutMilliseconds?: number;
+  };
+  /**
+   * Detect the end of the session at the identity provider (e.g. a logout in another application with the same SSO)
+   * with the `check_session_iframe` of OpenID Connect Session Management, if the identity provider has one.
+   * On a change the session is checked with a silent renew (if enabled). If that fails, the session is cleared like
+   * with `logoutLocal` and `sessionExpired` is emitted with the reason `sessionEnded`.
+   */
+  sessionManagement?: {
+    /**
+     * @default 2000
+     */
+    intervalMilliseconds?: number;
+  };
+  /**
+   * The url registered as `frontchannel_logout_uri` at the identity provider (OpenID Connect Front-Channel Logout).
+   * When the identity provider loads this page, the saved session is cleared like with `logoutLocal`
+   * (the other tabs are only logged out with `synchronizeTabs`) and the session is not restored on this page.
+   * Requests with the `iss` of another identity provider or the `sid` of another session are ignored.
+   */
+  frontChannelLogoutUrl?: string;
+  tokenRequest?: {
+    extras?: StringMap | undefined;
+  };
+  /**
+   * How `getToken` requests the tokens for other audiences:
+   * - `'tokenExchange'` exchanges the access token at the token endpoint (RFC 8693)
+   * - `'refreshToken'` sends a refresh token request with the resource indicator (RFC 8707)
+   * @default 'tokenExchange'
+   */
+  audienceTokenGrant?: 'tokenExchange' | 'refreshToken';
+  /**
+   * The url the identity provider redirects to after the logout.
+   * @default redirectUrl
+   */
+  postLogoutRedirectUrl?: string;
+  /**
+   * Revoke the tokens at the revocation_endpoint on `logout` and `logoutLocal`.
+   * `true` revokes the refresh token, `'all'` also revokes the access token.
+   * Failures are reported with `ErrorAction.REVOKE_TOKEN` and do not stop the logout.
+   */
+  revokeTokens?: boolean | 'all';
+  endSessionRequest?: {
+    extras?: StringMap | undefined;
+    /**
+     * A hint about the user which is logging out (e.g. the login name).
+     */
+    logoutHint?: string;
+    /**
+     * The preferred languages for the logout page, as space separated list of language tags.
+     */
+    uiLocales?: string;
+  };
+  authorizationRequest?: {
+    extras?: StringMap | undefined;
+  };
+
+  requestTimeoutMilliseconds?: number;
+
+  /**
+   * The prefix of all storage keys and of the tab sync channel.
+   * Set a distinct value if several AuthProviders use the same identity provider and client id.
+   * @default openIdConnectUrl and clientId
+   */
+  storageKeyPrefix?: string;
+  /**
+   * Move a refresh token saved by a previous version (without the storage key prefix) to this instance.
+   * Only enable this for one AuthProvider, the unprefixed token does not tell which identity provider it belongs to.
+   */
+  migrateUnprefixedRefreshToken?: boolean;
+}
+
+/**
+ * The state of the app when the login was started. It is restored after the redirect back from the identity provider.
+ */
+export interface LoginState<TAppState = unknown> {
+  /**
+   * e.g. the route the user started the login from
+   */
+  returnTo?: string;
+  /**
+   * Any JSON serializable value.
+   */
+  appState?: TAppState;
+}
+
+export type LoginOptions = NonNullable<AuthenticateOptions['authorizationRequest']> &
+  LoginState & {
+    /**
+     * @default options.scope
+     */
+    scope?: string;
+  };
+
+export interface AudienceTokenOptions {
+  /**
+   * The logical name of the target service, e.g. `https://api.example.com` or `orders`.
+   */
+  audience?: string;
+  /**
+   * The URI of the target resource server.
+   */
+  resource?: string;
+  /**
+   * The scopes requested for the target service.
+   */
+  scope?: string;
+}
+
+export interface DeviceLoginOptions {
+  /**
+   * @default options.scope
+   */
+  scope?: string;
+  extras?: StringMap;
+}
+
+/**
+ * Failed requests to the identity provider are reported as `RequestError`
+ * (`OAuthError`, `NetworkError`, `TimeoutError` or `AbortError`).
+ */
+export type ErrorHandler = (err: RequestError | AppAuthError | Error | unknown, duringAction: ErrorAction) => void;
+
+export type NetworkStatus = 'online' | 'offline';
+
+export interface AuthClientOptions {
+  options: AuthenticateOptions;
+
+  onError?: ErrorHandler;
+  /**
+   * Called after the tokens of a login were received, with the `returnTo` and `appState` passed to `login`.
+   * Use this to navigate back to where the login was started.
+   */
+  onLoginComplete?: (loginState: LoginState) => void;
+  /**
+   * Called after the identity provider redirected back from the logout.
+   */
+  onLogoutComplete?: () => void;
+  onLogin?: AuthEventListener<'login'>;
+  onTokenRefreshed?: AuthEventListener<'tokenRefreshed'>;
+  onSessionExpired?: AuthEventListener<'sessionExpired'>;
+  onLogout?: AuthEventListener<'logout'>;
+  onReady?: AuthEventListener<'ready'>;
+
+  /**
+   * The storage used for the refresh token and by the default handlers. All keys are prefixed with `storageKeyPrefix`.
+   * Note that a custom `authHandler` or `endSessionHandler` has to be created with a storage which is not shared with
+   * other AuthProviders, e.g. a `PrefixedStorageBackend`.
+   * @default LocalStorageBackend
+   */
+  storage?: StorageBackend;
+  authHandler?: AuthorizationRequestHandler;
+  endSessionHandler?: EndSessionRequestHandler;
+
+  /**
+   * Applied in order to all requests to the identity provider (well-known, token, refresh, revocation, ...),
+   * e.g. to add custom headers or for logging.
+   */
+  requestInterceptors?: RequestInterceptor[];
+  responseInterceptors?: ResponseInterceptor[];
+  /**
+   * The retry policy for requests to the identity provider, set to false to disable retries.
+   * @default { maxRetries: 2, methods: ['GET'] }, the token requests are only retried after a 429 or 503 response
+   * with `Retry-After`, the revocation requests are always retried
+   */
+  retry?: RetryOptions | false;
+  /**
+   * The fetch implementation for requests to the identity provider, e.g. a `FakeOidcProvider` in tests.
+   * @default window.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+export interface AuthClientState<TClaims extends IdTokenClaims = IdTokenClaims> {
+  token?: string;
+  idToken?: string;
+  /**
+   * The decoded claims of the ID token.
+   */
+  claims?: TClaims;
+  /**
+   * The claims of the ID token merged with the response of the userinfo_endpoint (if `loadUserInfo` is enabled).
+   */
+  user?: TClaims;
+  /**
+   * The scopes granted with the current access token.
+   */
+  grantedScopes?: string[];
+  /**
+   * The `returnTo` and `appState` passed to `login`, set after the login is complete.
+   */
+  loginState?: LoginState;
+  /**
+   * Set if the app received the authorization response of a login (redirect or popup), but the login failed,
+   * e.g. because the code exchange or the nonce check failed. The error is also reported to `onError`.
+   * Reset by the next `login`.
+   */
+  loginError?: unknown;
+  isLoggedIn: boolean;
+  isReady: boolean;
+  /**
+   * 'offline' while the browser has no network connection.
+   * Automatic token refreshes are postponed until the connection is back.
+   */
+  networkStatus: NetworkStatus;
+  /**
+   * true while the tokens are refreshed or the session is restored, e.g. to show a hint in the UI.
+   */
+  isRefreshing: boolean;
+  /**
+   * Set while a `loginWithDeviceCode` waits for the user to enter the code at the verification uri.
+   */
+  deviceAuthorization?: DeviceAuthorization;
+}
+
+export type AuthStateListener<TClaims extends IdTokenClaims = IdTokenClaims> = (state: AuthClientState<TClaims>) => void;
+
+interface RefreshTokenState {
+  /**
+   * undefined if the identity provider did not issue a refresh token
+   */
+  token?: string;
+  /**
+   * issue date of access and refresh token
+   */
+  issuedAt: Date;
+  /**
+   * milliseconds from issuedAt when the access token is going to expire
+   */
+  expiresIn: number;
+}
+
+interface AudienceTokenState extends RefreshTokenState {
+  token: string;
+}
+
+const AUTH_REFRESH_TOKEN_KEY = 'AUTH_REFRESH_TOKEN';
+/**
+ * The scopes granted with the saved refresh token, as a refresh response may omit them.
+ */
+const AUTH_GRANTED_SCOPES_KEY = 'AUTH_GRANTED_SCOPES';
+/**
+ * Set after a logout, so the session of the identity provider is not restored with a silent renew until the next login.
+ */
+const AUTH_LOGGED_OUT_KEY = 'AUTH_LOGGED_OUT';
+/**
+ * The `session_state` of the last authorization response, for the check session iframe.
+ */
+const AUTH_SESSION_STATE_KEY = 'AUTH_SESSION_STATE';
+/**
+ * The `sid` claim of the last ID token, to check the `sid` of a front-channel logout request.
+ */
+const AUTH_SESSION_ID_KEY = 'AUTH_SESSION_ID';
+/**
+ * The LoginState of the last login, together with the state of its authorization request.
+ * Like the request of the RedirectRequestHandler there is only one entry, so abandoned logins leave nothing behind.
+ */
+const AUTH_LOGIN_STATE_KEY = 'AUTH_LOGIN_STATE';
+/**
+ * The query parameters of an authorization response.
+ */
+const AUTHORIZATION_RESPONSE_PARAMETERS = ['code', 'state', 'session_state', 'iss', 'error', 'error_description', 'error_uri'];
+/**
+ * The query parameters of the redirect back after the logout.
+ */
+const END_SESSION_RESPONSE_PARAMETERS = ['state'];
+const TAB_SYNC_CHANNEL_NAME = 'AUTH_TAB_SYNC';
+/**
+ * How long to wait for another tab to answer with its tokens.
+ */
+const TAB_SYNC_TIMEOUT_MILLISECONDS = 1000;
+/**
+ * How long to wait for the leader tab to refresh the tokens.
+ */
+const TAB_SYNC_REFRESH_TIMEOUT_MILLISECONDS = 10000;
+
+// the storage is created on first use, so it can be imported on the server
+const DEFAULT_STORAGE = new LazyStorageBackend(() => new LocalStorageBackend());
+const IS_BROWSER = typeof window !== 'undefined';
+
+const DEFAULT_ERROR_HANDLER: ErrorHandler = () => undefined;
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {};
+
+const DEFAULT_REFRESH_INTERVAL_FACTOR = 0.9;
+/**
+ * How long to wait before retrying a failed automatic refresh.
+ */
+const REFRESH_RETRY_MILLISECONDS = 30000;
+const NONCE_LENGTH = 32;
+
+/**
+ * Removes the parameters of a response of the identity provider from the current url (without a reload),
+ * so they do not end up in bookmarks or the history.
+ */
+function removeResponseParameters(parameters: string[]): void {
+  const url = new URL(window.location.href);
+  parameters.forEach(parameter => url.searchParams.delete(parameter));
+  if (url.href !== window.location.href) {
+    window.history.replaceState(window.history.state, '', url.href);
+  }
+}
+
+/**
+ * @returns the `session_state` of the authorization response, which the redirect handler only leaves in the current url
+ */
+function getSessionState(response: AuthorizationResponse): string | undefined {
+  if (response instanceof SessionAuthorizationResponse) {
+    return response.sessionState;
+  }
+  return new URL(window.location.href).searchParams.get('session_state') || undefined;
+}
+
+/**
+ * @returns true if the current page is the given url (ignoring the query)
+ */
+function isCurrentPage(url: string): boolean {
+  const currentUrl = new URL(window.location.href);
+  const pageUrl = new URL(url, currentUrl.href);
+  return currentUrl.origin === pageUrl.origin && currentUrl.pathname === pageUrl.pathname;
+}
+
+interface RenewedTokens {
+  token: string;
+  idToken?: string;
+}
+
+function splitScope(scope: string): string[] {
+  return scope.split(' ').filter(Boolean);
+}
+
+function decodeClaims<TClaims extends IdTokenClaims>(idToken: string | undefined): TClaims | undefined {
+  if (!idToken) {
+    return undefined;
+  }
+  try {
+    return decodeJwt<TClaims>(idToken);
+  } catch {
+    // malformed ID token - there are no claims to show
+    return undefined;
+  }
+}
+
+/**
+ * Holds the session (tokens, refresh, tab sync, ...) independent of any UI framework.
+ * Call `start` in the browser to handle the redirect back from the identity provider and to restore the session.
+ * `useAuth` and the `AuthProvider` are bindings of this client for React.
+ */
+export class AuthClient<TClaims extends IdTokenClaims = IdTokenClaims> {
+  /**
+   * Subscribe to login, tokenRefreshed, sessionExpired, logout and ready events.
+   */
+  public readonly events: Pick<AuthEventEmitter, 'on'>;
+
+  private readonly emitter: AuthEventEmitter = new AuthEventEmitter();
+  private readonly options: AuthenticateOptions;
+  private readonly onError: ErrorHandler;
+  private readonly onLoginComplete?: (loginState: LoginState) => void;
+  private readonly onLogoutComplete?: () => void;
+  private readonly baseStorage: StorageBackend;
+  private readonly storage: StorageBackend;
+  private readonly authHandler?: AuthorizationRequestHandler;
+  private readonly endSessionHandler?: EndSessionRequestHandler;
+  private readonly requestor: Requestor;
+  private readonly revocationRequestor: Requestor;
+  private readonly idTokenValidator?: IdTokenValidator;
+  private readonly iframeHandler?: IframeRequestHandler;
+  private readonly tabSync?: TabSync;
+  private readonly deviceAuthorizationHandler: DeviceAuthorizationHandler;
+
+  private listeners: AuthStateListener<TClaims>[] = [];
+  private state: AuthClientState<TClaims>;
+  private configuration?: OpenIdConfiguration;
+  private refreshToken?: RefreshTokenState;
+  private token?: string;
+  private idToken?: string;
+  private claims?: TClaims;
+  private userInfo?: Partial<TClaims>;
+  private user?: TClaims;
+  private grantedScopes?: string[];
+  private loginState?: LoginState;
+  private loginError?: unknown;
+  private deviceAuthorization?: DeviceAuthorization;
+  private deviceLoginController?: AbortController;
+  private sessionState?: string;
+  private checkSessionIframe?: CheckSessionIframe;
+  // the tokens of `getToken` by audience, replaced on logout so running requests do not cache their tokens
+  private audienceTokens: Map<string, AudienceTokenState> = new Map<string, AudienceTokenState>();
+  private audienceTokenRequests: Map<string, Promise<string>> = new Map<string, Promise<string>>();
+  // assume online on the server and during hydration, `start` sets the actual status
+  private networkStatus: NetworkStatus = 'online';
+  // the number of running token renewals
+  private refreshCount: number = 0;
+  // ready defines if the Authentication is initialized.
+  // (e.g. the auto login is done)
+  private isAutoLoginDone: boolean = false;
+  private isInitializationComplete: boolean = false;
+  private isLeaderTab: boolean = false;
+  private isStarted: boolean = false;
+  private initialization?: Promise<void>;
+  // the token request of the last authorization response
+  private authorizationListenerPromise?: Promise<void>;
+  private refreshTimeoutId?: number;
+  private isRefreshRunning: boolean = false;
+
+  // the requests with the refresh token run one after another, as each of them may rotate it
+  private refreshTokenQueue: Promise<unknown> = Promise.resolve();
+
+  private readonly performTokenRefresh: (savedRefreshToken: string) => Promise<RenewedTokens | undefined> = singleEntry(
+    this.trackRefreshing((savedRefreshToken: string) =>
+      // a queued `getToken` may have rotated the refresh token in the meantime
+      this.enqueueRefreshTokenRequest(() => this.refreshAccessToken(this.refreshToken?.token || savedRefreshToken)),
+    ),
+  );
+  private readonly performSilentRenew: () => Promise<RenewedTokens | undefined> = singleEntry(
+    this.trackRefreshing(() => this.silentRenew()),
+  );
+
+  public constructor({
+    options,
+    onError = DEFAULT_ERROR_HANDLER,
+    onLoginComplete,
+    onLogoutComplete,
+    onLogin,
+    onTokenRefreshed,
+    onSessionExpired,
+    onLogout,
+    onReady,
+    storage = DEFAULT_STORAGE,
+    authHandler,
+    endSessionHandler,
+    requestInterceptors,
+    responseInterceptors,
+    retry = DEFAULT_RETRY_OPTIONS,
+    fetch,
+  }: AuthClientOptions) {
+    this.options = options;
+    this.onError = onError;
+    this.onLoginComplete = onLoginComplete;
+    this.onLogoutComplete = onLogoutComplete;
+    this.events = this.emitter;
+
+    // All keys (also the ones of the default handlers) are prefixed, so several instances do not overwrite each other
+    // and each instance only completes its own authorization requests.
+    const storageKeyPrefix = options.storageKeyPrefix ?? `${options.openIdConnectUrl}|${options.clientId}|`;
+    this.baseStorage = storage;
+    this.storage = new PrefixedStorageBackend(storage, storageKeyPrefix);
+
+    // The default handlers have to use the same storage as the tokens.
+    // They need the window, so they are only created in the browser.
+    this.authHandler =
+      authHandler ||
+      (IS_BROWSER
+        ? new RedirectRequestHandler(this.storage, new NoHashQueryStringUtils(), window.location, new DefaultCrypto())
+        : undefined);
+    this.endSessionHandler =
+      endSessionHandler ||
+      (IS_BROWSER ? new RedirectEndSessionRequestHandler(this.storage, new NoHashQueryStringUtils(), window.location) : undefined);
+
+    this.requestor = new ConfigurableFetchRequestor({
+      requestInterceptors,
+      responseInterceptors,
+      retry: retry || undefined,
+      timeoutMilliseconds: options.requestTimeoutMilliseconds,
+      fetch,
+    });
+    // keepalive lets the revocation finish even if the page is left for the end session request,
+    // a revocation can be sent again (RFC 7009), so its POST is retried
+    this.revocationRequestor = new ConfigurableFetchRequestor({
+      requestInterceptors: [...(requestInterceptors || []), keepaliveInterceptor],
+      responseInterceptors,
+      retry: retry ? { ...retry, methods: [...(retry.methods || DEFAULT_RETRY_METHODS), 'POST'] } : undefined,
+      timeoutMilliseconds: options.requestTimeoutMilliseconds,
+      fetch,
+    });
+
+    this.deviceAuthorizationHandler = new DeviceAuthorizationHandler(this.requestor);
+    this.idTokenValidator = options.validateIdToken ? new IdTokenValidator(this.requestor) : undefined;
+    this.iframeHandler = options.silentRenew
+      ? new IframeRequestHandler(new NoHashQueryStringUtils(), new DefaultCrypto(), options.silentRenew.timeoutMilliseconds)
+      : undefined;
+
+    this.tabSync = options.synchronizeTabs ? new TabSync(`${TAB_SYNC_CHANNEL_NAME}|${storageKeyPrefix}`, this.storage) : undefined;
+    this.tabSync?.setListeners({
+      onTokens: tokens => {
+        // several tabs may answer a request for the tokens
+        if (tokens.access_token !== this.token) {
+          this.setTokenResponse(new TokenResponse(tokens), 'tabSync');
+        }
+      },
+      onRefreshToken: refreshToken => {
+        if (this.refreshToken) {
+          this.refreshToken = { ...this.refreshToken, token: refreshToken };
+        }
+      },
+      onLogout: reason => {
+        const wasLoggedIn = this.token !== undefined;
+        this.clearTokens();
+        if (reason === 'sessionEnded') {
+          if (wasLoggedIn) {
+            this.emitter.emit('sessionExpired', { reason: 'sessionEnded' });
+          }
+        } else {
+          this.emitter.emit('logout', { reason: 'otherTab' });
+        }
+      },
+      onRefreshRequested: () => {
+        if (this.refreshToken) {
+          void this.renewTokens(this.refreshToken);
+        }
+      },
+      onLeaderChange: isLeader => {
+        this.isLeaderTab = isLeader;
+        this.refreshIfDue();
+      },
+    });
+
+    if (onLogin) {
+      this.emitter.on('login', onLogin);
+    }
+    if (onTokenRefreshed) {
+      this.emitter.on('tokenRefreshed', onTokenRefreshed);
+    }
+    if (onSessionExpired) {
+      this.emitter.on('sessionExpired', onSessionExpired);
+    }
+    if (onLogout) {
+      this.emitter.on('logout', onLogout);
+    }
+    if (onReady) {
+      this.emitter.on('ready', onReady);
+    }
+
+    this.state = this.createState();
+  }
+
+  /**
+   * Start the client in the browser: handle the redirect back from the identity provider, restore the session,
+   * synchronize the tabs and refresh the tokens before they expire.
+   * The initialization only runs once, so the client can be stopped and started again.
+   */
+  public start(): void {
+    if (!IS_BROWSER || this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+
+    window.addEventListener('online', this.onNetworkStatusChange);
+    window.addEventListener('offline', this.onNetworkStatusChange);
+    // Timers are throttled in background tabs and suspended during sleep, so the due date of the refresh is checked
+    // again when the tab becomes visible or focused and when the network connection is back.
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    window.addEventListener('focus', this.refreshIfDue);
+    this.tabSync?.start();
+    // the status may have changed while the client was stopped
+    this.onNetworkStatusChange();
+    this.monitorSession();
+
+    if (!this.initialization) {
+      this.initialization = this.initialize();
+    }
+  }
+
+  /**
+   * Stop the automatic refresh, the tab sync and all listeners on the window.
+   */
+  public stop(): void {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+
+    window.removeEventListener('online', this.onNetworkStatusChange);
+    window.removeEventListener('offline', this.onNetworkStatusChange);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('focus', this.refreshIfDue);
+    this.tabSync?.stop();
+    window.clearTimeout(this.refreshTimeoutId);
+    this.checkSessionIframe?.stop();
+  }
+
+  /**
+   * @returns the current state, a new object after each change
+   */
+  public readonly getState = (): AuthClientState<TClaims> => this.state;
+
+  /**
+   * Called with the new state after each change.
+   * @returns a function to remove the listener
+   */
+  public readonly subscribe = (listener: AuthStateListener<TClaims>): (() => void) => {
+    this.listeners = this.listeners.concat(listener);
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener);
+    };
+  };
+
+  /**
+   * Start the login.
+   * With the default redirect handler the app is left. With the `PopupRequestHandler` the promise resolves after the
+   * login in the popup is finished and rejects if the popup was closed or blocked, or if the login failed.
+   * `returnTo` and `appState` are stored and restored as `loginState` after the login.
+   */
+  public readonly login = async (loginOptions?: LoginOptions): Promise<void> => {
+    const { authHandler, configuration, options } = this;
+    if (!configuration || !authHandler || !this.state.isReady) {
+      throw new Error('called login too soon - you can check that with "isReady"');
+    }
+
+    // the nonce binds the ID token to this request, it is checked after the code exchange
+    const nonce = new DefaultCrypto().generateRandom(NONCE_LENGTH);
+    const extras = { ...options.authorizationRequest?.extras, ...loginOptions?.extras, nonce };
+
+    // create a request
+    const request = new AuthorizationRequest(
+      {
+        client_id: options.clientId,
+        redirect_uri: options.redirectUrl,
+        scope: loginOptions?.scope || options.scope,
+        response_type: AuthorizationRequest.RESPONSE_TYPE_CODE,
+        state: undefined,
+        extras,
+        internal: { nonce },
+      },
+      undefined,
+      options.usePkce,
+    );
+
+    // restored after the login with the state of the authorization response
+    const loginState: LoginState = { returnTo: loginOptions?.returnTo, appState: loginOptions?.appState };
+    const saveLoginState =
+      loginState.returnTo !== undefined || loginState.appState !== undefined
+        ? this.storage.setItem(AUTH_LOGIN_STATE_KEY, JSON.stringify({ state: request.state, loginState }))
+        : this.storage.removeItem(AUTH_LOGIN_STATE_KEY);
+    const removeLoggedOut = this.storage.removeItem(AUTH_LOGGED_OUT_KEY);
+    this.setLoginError(undefined);
+
+    if (authHandler instanceof PopupRequestHandler) {
+      // the popup has to be opened before anything is awaited, otherwise it gets blocked
+      await Promise.all([authHandler.performPopupRequest(configuration, request), saveLoginState, removeLoggedOut]);
+      // wait for the token request started by the authorization listener
+      await this.authorizationListenerPromise;
+      if (this.loginError !== undefined) {
+        throw this.loginError;
+      }
+      return;
+    }
+
+    // make the authorization request
+    await Promise.all([saveLoginState, removeLoggedOut]);
+    authHandler.performAuthorizationRequest(configuration, request);
+  };
+
+  /**
+   * Log in with the device authorization grant, for devices on which the user can not log in with the browser
+   * (e.g. kiosk terminals). `deviceAuthorization` is set with the code the user enters on another device (e.g. by
+   * scanning a QR code of `verificationUriComplete`), and the token endpoint is polled until the login is approved.
+   * A running device login is cancelled.
+   * @throws OAuthError if the login was denied (`access_denied`) or the code expired (`expired_token`)
+   * @throws DeviceLoginCancelledError if the login was cancelled with `cancelDeviceLogin`
+   */
+  public readonly loginWithDeviceCode = async (loginOptions?: DeviceLoginOptions): Promise<void> => {
+    const { configuration, options } = this;
+    if (!configuration || !this.state.isReady) {
+      throw new Error('called login too soon - you can check that with "isReady"');
+    }
+
+    this.cancelDeviceLogin();
+    const controller = new AbortController();
+    this.deviceLoginController = controller;
+    const scope = loginOptions?.scope || options.scope;
+
+    try {
+      await this.storage.removeItem(AUTH_LOGGED_OUT_KEY);
+      const response = await this.deviceAuthorizationHandler.performDeviceAuthorizationRequest(configuration, {
+        clientId: options.clientId,
+        scope,
+        extras: loginOptions?.extras,
+      });
+      if (controller.signal.aborted) {
+        throw new DeviceLoginCancelledError('the device login was cancelled');
+      }
+      this.deviceAuthorization = toDeviceAuthorization(response);
+      this.update();
+
+      const tokenResponse = await this.deviceAuthorizationHandler.pollForToken(
+        configuration,
+        options.clientId,
+        response,
+        controller.signal,
+      );
+      try {
+        await this.validateTokenResponse(tokenResponse);
+      } catch (validationErr) {
+        this.onError(validationErr, ErrorAction.VALIDATE_ID_TOKEN);
+        return;
+      }
+
+      this.setTokenResponse(tokenResponse, 'deviceCode', scope);
+      this.tabSync?.publishTokens({ ...tokenResponse.toJson(), scope: tokenResponse.scope || scope });
+    } finally {
+      if (this.deviceLoginController === controller) {
+        this.deviceLoginController = undefined;
+        this.deviceAuthorization = undefined;
+        this.update();
+      }
+    }
+  };
+
+  /**
+   * Cancel a running `loginWithDeviceCode`.
+   */
+  public readonly cancelDeviceLogin = (): void => {
+    this.deviceLoginController?.abort();
+  };
+
+  /**
+   * Start an authorization request for the granted and the given additional scopes (incremental consent).
+   * The new tokens replace the current ones after the login, just like with `login`.
+   */
+  public readonly requestScopes = (scopes: string[], loginOptions?: Omit<LoginOptions, 'scope'>): Promise<void> => {
+    const scope = (this.state.grantedScopes || splitScope(this.options.scope)).slice();
+    scopes.forEach(additionalScope => {
+      if (scope.indexOf(additionalScope) < 0) {
+        scope.push(additionalScope);
+      }
+    });
+    return this.login({ ...loginOptions, scope: scope.join(' ') });
+  };
+
+  public readonly hasScope = (scope: string): boolean => !!this.state.grantedScopes && this.state.grantedScopes.indexOf(scope) >= 0;
+
+  /**
+   * Unset all tokens and redirect to the end_session_endpoint of the identity provider.
+   * @returns true if the end session request was started
+   */
+  public readonly logout = async (endSessionRequest?: AuthenticateOptions['endSessionRequest']): Promise<boolean | undefined> => {
+    const { configuration, endSessionHandler, options } = this;
+    const tmpIdToken = this.idToken;
+    this.revokeTokens({ refreshToken: this.refreshToken?.token, accessToken: this.token });
+    this.clearTokens();
+    this.emitter.emit('logout', { reason: 'logout' });
+    this.tabSync?.publishLogout();
+    await this.removeSavedSession();
+    await this.storage.setItem(AUTH_LOGGED_OUT_KEY, 'true');
+
+    if (!configuration?.endSessionEndpoint || !endSessionHandler) {
+      return;
+    }
+
+    const extras = { ...options.endSessionRequest?.extras, ...endSessionRequest?.extras };
+
+    // without id_token_hint the identity provider may ask the user to confirm the logout
+    performEndSessionRequest(
+      endSessionHandler,
+      configuration,
+      options.clientId,
+      options.postLogoutRedirectUrl || options.redirectUrl,
+      tmpIdToken,
+      extras,
+      {
+        logoutHint: endSessionRequest?.logoutHint || options.endSessionRequest?.logoutHint,
+        uiLocales: endSessionRequest?.uiLocales || options.endSessionRequest?.uiLocales,
+      },
+    );
+
+    return true;
+  };
+
+  /**
+   * Unset all token (IDToken, Access-Token, Refresh-Token) and remove the refresh token from
+   * the storage to perform a local logout
+   */
+  public readonly logoutLocal = (): Promise<void> =>
+    this.clearSession({ refreshToken: this.refreshToken?.token, accessToken: this.token }, 'logout', () =>
+      this.emitter.emit('logout', { reason: 'logoutLocal' }),
+    );
+
+  /**
+   * Check if the access token is still valid (by expiresIn value) and perform a token refresh
+   * request if the token is expired, or is going to expire soon
+   * @param forceRefresh set to true to ignore expiresIn value and always perform a refresh (awaited, e.g. after a 401 response)
+   * @returns the new set of tokens if the token was refreshed
+   */
+  public readonly checkToken = async (forceRefresh?: boolean): Promise<RenewedTokens | undefined> => {
+    const { refreshToken } = this;
+    if (!refreshToken || !this.canRenew()) {
+      return;
+    }
+
+    const isExpired = refreshToken.issuedAt.getTime() + refreshToken.expiresIn < Date.now();
+    if (this.getRefreshAt(refreshToken) > Date.now() && !forceRefresh) {
+      return;
+    }
+
+    if (isExpired || forceRefresh) {
+      // the token is already expired (or known to be invalid), refresh synchronously
+      return await this.renewTokens(refreshToken);
+    } else if (this.networkStatus === 'online') {
+      // the token is still valid, refresh in background
+      void this.renewTokens(refreshToken);
+    }
+  };
+
+  /**
+   * Use this to add the access token to requests outside of React, e.g. in an Axios interceptor.
+   * @returns the access token, refreshed first if it is expired or is going to expire soon, or undefined if not logged in
+   */
+  public readonly getValidToken = async (): Promise<string | undefined> => {
+    const renewed = await this.checkToken();
+    return renewed?.token || this.token;
+  };
+
+  /**
+   * Get an access token for another audience or resource server, e.g. a downstream API.
+   * The tokens are cached until they are going to expire (see `refreshIntervalFactor`) and are removed on logout.
+   * @throws RequestError if the identity provider rejects the request, e.g. with `invalid_target`
+   */
+  public readonly getToken = (tokenOptions: AudienceTokenOptions): Promise<string> => {
+    const key = JSON.stringify([tokenOptions.audience, tokenOptions.resource, tokenOptions.scope]);
+    const tokenState = this.audienceTokens.get(key);
+    if (tokenState && this.getRefreshAt(tokenState) > Date.now()) {
+      return Promise.resolve(tokenState.token);
+    }
+
+    // share one request between concurrent calls
+    const runningRequest = this.audienceTokenRequests.get(key);
+    if (runningRequest) {
+      return runningRequest;
+    }
+    const { audienceTokens, audienceTokenRequests } = this;
+    const request = this.requestAudienceToken(tokenOptions).then(
+      newTokenState => {
+        audienceTokens.set(key, newTokenState);
+        audienceTokenRequests.delete(key);
+        return newTokenState.token;
+      },
+      err => {
+        audienceTokenRequests.delete(key);
+        throw err;
+      },
+    );
+    audienceTokenRequests.set(key, request);
+    return request;
+  };
+
+  private async initialize(): Promise<void> {
+    void this.completeEndSessionRequest();
+
+    const { options } = this;
+    try {
+      this.configuration = await OpenIdConfiguration.fetchFromIssuer(options.openIdConnectUrl, this.requestor);
+    } catch (err) {
+      this.onError(err, ErrorAction.FETCH_WELL_KNOWN);
+      return;
+    }
+
+    if (options.frontChannelLogoutUrl && isCurrentPage(options.frontChannelLogoutUrl)) {
+      await this.completeFrontChannelLogout();
+      return;
+    }
+
+    if (options.sessionManagement && this.configuration.checkSessionIframe) {
+      this.checkSessionIframe = new CheckSessionIframe(
+        this.configuration.checkSessionIframe,
+        options.clientId,
+        {
+          onChanged: () => void this.onSessionChanged(),
+          onError: err => this.onError(err, ErrorAction.CHECK_SESSION),
+        },
+        options.sessionManagement.intervalMilliseconds,
+      );
+    }
+
+    // the auto login is not needed if the page is the redirect back from a login
+    await this.completeAuthorizationRequest();
+    await this.autoLogin();
+  }
+
+  /**
+   * Clear the saved session, as the identity provider loaded the front-channel logout page.
+   * Requests of another identity provider (by the `iss` parameter) or another session (by the `sid` parameter)
+   * are ignored.
+   */
+  private async completeFrontChannelLogout(): Promise<void> {
+    try {
+      const { searchParams } = new URL(window.location.href);
+      const issuer = searchParams.get('iss');
+      const sessionId = searchParams.get('sid');
+      const isOtherIssuer = !!issuer && issuer !== (this.configuration?.issuer || this.options.openIdConnectUrl);
+      const isOtherSession = !!sessionId && sessionId !== (await this.storage.getItem(AUTH_SESSION_ID_KEY));
+      if (!isOtherIssuer && !isOtherSession) {
+        const savedRefreshToken = await this.loadRefreshToken();
+        await this.storage.removeItem(AUTH_SESSION_STATE_KEY);
+        await this.endSession({ refreshToken: savedRefreshToken });
+      }
+    } catch (err) {
+      this.onError(err, ErrorAction.CHECK_SESSION);
+    } finally {
+      this.isAutoLoginDone = true;
+      this.isInitializationComplete = true;
+      this.update();
+    }
+  }
+
+  /**
+   * The session at the identity provider changed: keep the session if a silent renew succeeds
+   * (e.g. the user only logged in again), clear it otherwise.
+   */
+  private async onSessionChanged(): Promise<void> {
+    const tokens = { refreshToken: this.refreshToken?.token, accessToken: this.token };
+    try {
+      if (this.iframeHandler && (await this.performSilentRenew())) {
+        return;
+      }
+      await this.endSession(tokens);
+    } catch (err) {
+      this.onError(err, ErrorAction.CHECK_SESSION);
+    }
+  }
+
+  /**
+   * Clear the session after it ended at the identity provider.
+   */
+  private endSession(tokens: { refreshToken?: string; accessToken?: string }): Promise<void> {
+    // a failed silent renew already cleared the tokens and reported the expired session
+    const wasLoggedIn = this.token !== undefined;
+    return this.clearSession(tokens, 'sessionEnded', () => {
+      if (wasLoggedIn) {
+        this.emitter.emit('sessionExpired', { reason: 'sessionEnded' });
+      }
+    });
+  }
+
+  /**
+   * Revoke the given tokens (if enabled) and clear the session in all tabs and the storage.
+   */
+  private async clearSession(
+    tokens: { refreshToken?: string; accessToken?: string },
+    reason: TabLogoutReason,
+    emitEvent: () => void,
+  ): Promise<void> {
+    this.revokeTokens(tokens);
+    this.clearTokens();
+    emitEvent();
+    this.tabSync?.publishLogout(reason);
+    // only remove our own entries, the storage may be shared with the rest of the app
+    await this.removeSavedSession();
+    await this.storage.setItem(AUTH_LOGGED_OUT_KEY, 'true');
+  }
+
+  /**
+   * Auto login if a refresh token exists (or silently if silent renew is enabled and the user did not log out).
+   */
+  private async autoLogin(): Promise<void> {
+    try {
+      if (this.token !== undefined) {
+        return;
+      }
+      const savedRefreshToken = await this.loadRefreshToken();
+      if (!savedRefreshToken && (!this.iframeHandler || (await this.storage.getItem(AUTH_LOGGED_OUT_KEY)))) {
+        return;
+      }
+      this.sessionState = (await this.storage.getItem(AUTH_SESSION_STATE_KEY)) || undefined;
+      const savedScopes = await this.storage.getItem(AUTH_GRANTED_SCOPES_KEY);
+      if (savedRefreshToken && savedScopes) {
+        this.grantedScopes = splitScope(savedScopes);
+      }
+
+      // prefer the tokens of an already logged in tab instead of refreshing them again
+      // (they are set by the `onTokens` listener)
+      const tokens = await this.tabSync?.waitForTokens('requestTokens', TAB_SYNC_TIMEOUT_MILLISECONDS);
+      if (tokens) {
+        return;
+      } else if (savedRefreshToken) {
+        await this.performTokenRefresh(savedRefreshToken);
+      } else {
+        await this.performSilentRenew();
+      }
+    } catch (err) {
+      this.onError(err, ErrorAction.AUTO_LOGIN);
+    } finally {
+      this.isAutoLoginDone = true;
+      this.update();
+      this.refreshIfDue();
+    }
+  }
+
+  /**
+   * Adds a listener for the redirect and triggers the token loading with the code retrieved from that.
+   */
+  private async completeAuthorizationRequest(): Promise<void> {
+    const { authHandler } = this;
+    if (!authHandler) {
+      return;
+    }
+
+    const notifier = new AuthorizationNotifier();
+    authHandler.setAuthorizationNotifier(notifier);
+    // this promise is required to wait for the token request before setting initializationComplete
+    // it should never reject, as errors are not handled in all cases
+    let listenerPromise = undefined as Promise<void> | undefined;
+    notifier.setAuthorizationListener((request, response, err) => {
+      listenerPromise = this.authorizationListenerPromise = (async () => {
+        if (err) {
+          this.onError(err, ErrorAction.HANDLE_AUTHORIZATION_RESPONSE);
+          this.setLoginError(err);
+          return;
+        }
+        if (!response) {
+          return;
+        }
+
+        try {
+          const [tokenResponse, restoredLoginState] = await Promise.all([
+            this.exchangeAuthorizationCode(request, response.code, 'authorizationCode', getSessionState(response)),
+            this.takeLoginState(request.state),
+          ]);
+          if (tokenResponse) {
+            this.loginState = restoredLoginState;
+            this.update();
+            this.onLoginComplete?.(restoredLoginState);
+          } else {
+            // the reason was already reported by the validation
+            this.setLoginError(new AppAuthError('the tokens of the authorization response were rejected'));
+          }
+        } catch (exchangeErr) {
+          this.onError(exchangeErr, ErrorAction.HANDLE_AUTHORIZATION_RESPONSE);
+          this.setLoginError(exchangeErr);
+        }
+      })();
+    });
+
+    try {
+      // Run the auth completion (listener above) to handle the redirects.
+      await authHandler.completeAuthorizationRequestIfPossible();
+      if (listenerPromise) {
+        // the code must not be used again, e.g. on a reload
+        removeResponseParameters(AUTHORIZATION_RESPONSE_PARAMETERS);
+      }
+      await listenerPromise;
+    } catch (err) {
+      this.onError(err, ErrorAction.COMPLETE_AUTHORIZATION_REQUEST);
+    } finally {
+      this.isInitializationComplete = true;
+      this.update();
+    }
+  }
+
+  /**
+   * Complete the logout after the redirect back from the identity provider.
+   */
+  private async completeEndSessionRequest(): Promise<void> {
+    try {
+      const request = await this.endSessionHandler?.completeEndSessionRequestIfPossible();
+      if (request) {
+        removeResponseParameters(END_SESSION_RESPONSE_PARAMETERS);
+        this.onLogoutComplete?.();
+      }
+    } catch (err) {
+      removeResponseParameters(END_SESSION_RESPONSE_PARAMETERS);
+      this.onError(err, ErrorAction.COMPLETE_END_SESSION_REQUEST);
+    }
+  }
+
+  /**
+   * Set the tokens and refresh interval from the given TokenResponse.
+   */
+  private setTokenResponse(oResponse: TokenResponse, source: TokenSource, requestedScope?: string): void {
+    if (!oResponse.accessToken) {
+      return;
+    }
+    const isRefresh = this.token !== undefined;
+
+    // without scope in the response the requested scopes are granted, a refresh keeps the scopes
+    const scope = oResponse.scope || requestedScope;
+    this.grantedScopes = scope ? splitScope(scope) : this.grantedScopes || splitScope(this.options.scope);
+
+    // keep the current refresh token if the identity provider does not rotate it
+    this.refreshToken = {
+      token: oResponse.refreshToken || this.refreshToken?.token,
+      // tokens of another tab keep their age
+      issuedAt: new Date(oResponse.issuedAt * 1000),
+      expiresIn: (oResponse.expiresIn || 3600) * 1000,
+    };
+    if (oResponse.refreshToken) {
+      void this.storage.setItem(AUTH_REFRESH_TOKEN_KEY, oResponse.refreshToken);
+    }
+    if (this.refreshToken.token) {
+      void this.storage.setItem(AUTH_GRANTED_SCOPES_KEY, this.grantedScopes.join(' '));
+    }
+
+    this.setTokens(oResponse.accessToken, oResponse.idToken);
+    if (oResponse.idToken) {
+      const sessionId = this.claims?.sid;
+      void (typeof sessionId === 'string'
+        ? this.storage.setItem(AUTH_SESSION_ID_KEY, sessionId)
+        : this.storage.removeItem(AUTH_SESSION_ID_KEY));
+    }
+
+    const tokenEvent: TokenEvent = {
+      source,
+      accessToken: oResponse.accessToken,
+      idToken: oResponse.idToken,
+      tokenType: oResponse.tokenType,
+      scope,
+      issuedAt: oResponse.issuedAt,
+      expiresIn: oResponse.expiresIn,
+    };
+    this.emitter.emit(isRefresh ? 'tokenRefreshed' : 'login', tokenEvent);
+    this.refreshIfDue();
+
+    if (source === 'tabSync') {
+      // the tab which received the authorization response saved its session state
+      void this.storage.getItem(AUTH_SESSION_STATE_KEY).then(sessionState => {
+        this.sessionState = sessionState || undefined;
+        this.monitorSession();
+      });
+    } else {
+      this.monitorSession();
+    }
+  }
+
+  private setLoginError(loginError: unknown): void {
+    this.loginError = loginError;
+    this.update();
+  }
+
+  private setSessionState(sessionState: string | undefined): void {
+    this.sessionState = sessionState;
+    if (sessionState) {
+      void this.storage.setItem(AUTH_SESSION_STATE_KEY, sessionState);
+    } else {
+      void this.storage.removeItem(AUTH_SESSION_STATE_KEY);
+    }
+  }
+
+  /**
+   * Poll the check session iframe while logged in with a known session state.
+   */
+  private monitorSession(): void {
+    const { checkSessionIframe, sessionState } = this;
+    if (this.isStarted && this.token !== undefined && sessionState) {
+      checkSessionIframe?.start(sessionState);
+    } else {
+      checkSessionIframe?.stop();
+    }
+  }
+
+  private setTokens(token: string | undefined, idToken: string | undefined): void {
+    const isNewToken = token !== this.token;
+    if (idToken !== this.idToken) {
+      this.claims = decodeClaims<TClaims>(idToken);
+    }
+    if (!token) {
+      this.userInfo = undefined;
+    }
+    this.token = token;
+    this.idToken = idToken;
+    this.updateUser();
+
+    if (isNewToken) {
+      this.loadUserInfo();
+    }
+  }
+
+  private clearTokens(): void {
+    this.refreshToken = undefined;
+    this.audienceTokens = new Map<string, AudienceTokenState>();
+    this.audienceTokenRequests = new Map<string, Promise<string>>();
+    if (this.sessionState) {
+      this.setSessionState(undefined);
+    }
+    this.setTokens(undefined, undefined);
+    // stops the automatic refresh and the session check
+    this.refreshIfDue();
+    this.monitorSession();
+  }
+
+  private updateUser(): void {
+    const { claims, userInfo } = this;
+    if (claims && userInfo) {
+      // the userinfo response must not change the identity of the ID token
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { sub, iss, aud, ...additionalClaims } = userInfo;
+      this.user = { ...claims, ...additionalClaims };
+    } else {
+      this.user = claims || (userInfo as TClaims | undefined);
+    }
+    this.update();
+  }
+
+  /**
+   * Load the user info for each new access token.
+   */
+  private loadUserInfo(): void {
+    const { configuration, token } = this;
+    if (!this.options.loadUserInfo || !configuration || !token) {
+      return;
+    }
+
+    performUserInfoRequest<Partial<TClaims>>(configuration, token, this.requestor)
+      .then(response => {
+        // ignore the response for an outdated token
+        if (token !== this.token) {
+          return;
+        }
+        // the response may belong to another user, see https://openid.net/specs/openid-connect-core-1_0.html#UserInfoResponse
+        if (this.claims && response.sub !== this.claims.sub) {
+          throw new AppAuthError('the sub of the userinfo response does not match the ID token');
+        }
+        this.userInfo = response;
+        this.updateUser();
+      })
+      .catch(err => this.onError(err, ErrorAction.LOAD_USER_INFO));
+  }
+
+  /**
+   * Validate the ID token of the given TokenResponse, if enabled.
+   * @throws IdTokenValidationError if the ID token is invalid
+   */
+  private async validateTokenResponse(oResponse: TokenResponse): Promise<void> {
+    const { configuration, idTokenValidator, options } = this;
+    if (!idTokenValidator || !oResponse.idToken) {
+      return;
+    }
+    if (!configuration?.jwksUri) {
+      throw new IdTokenValidationError('the identity provider does not provide a jwks_uri');
+    }
+
+    await idTokenValidator.validate(oResponse.idToken, {
+      issuer: options.openIdConnectUrl,
+      clientId: options.clientId,
+      jwksUri: configuration.jwksUri,
+      clockSkewSeconds: options.clockSkewSeconds,
+    });
+  }
+
+  /**
+   * Exchange the code of an authorization response for tokens and set them.
+   * Invalid ID tokens are reported and rejected.
+   * @returns the TokenResponse or undefined if it was rejected
+   */
+  private async exchangeAuthorizationCode(
+    request: AuthorizationRequest,
+    code: string,
+    source: TokenSource,
+    sessionState: string | undefined,
+  ): Promise<TokenResponse | undefined> {
+    const { configuration, options } = this;
+    if (!configuration) {
+      throw new Error('called code exchange too soon - you can check that with "isReady"');
+    }
+
+    // response object returns code which is in URL i.e. response.code
+    // request object returns code_verifier i.e request.internal.code_verifier
+    const tokenResponse = await performTokenRequest(
+      configuration,
+      options.clientId,
+      request.redirectUri,
+      code,
+
+      // Needed for PKCE to work
+      request.internal
+        ? {
+            code_verifier: request.internal.code_verifier,
+            ...(options.tokenRequest?.extras || {}),
+          }
+        : options.tokenRequest?.extras,
+      this.requestor,
+    );
+
+    try {
+      await this.validateTokenResponse(tokenResponse);
+    } catch (validationErr) {
+      this.onError(validationErr, ErrorAction.VALIDATE_ID_TOKEN);
+      return;
+    }
+    if (request.internal?.nonce && tokenResponse.idToken) {
+      try {
+        validateNonce(tokenResponse.idToken, request.internal.nonce);
+      } catch (nonceErr) {
+        this.onError(nonceErr, ErrorAction.VALIDATE_NONCE);
+        return;
+      }
+    }
+
+    this.setSessionState(sessionState);
+    this.setTokenResponse(tokenResponse, source, request.scope);
+    this.tabSync?.publishTokens({ ...tokenResponse.toJson(), scope: tokenResponse.scope || request.scope });
+    return tokenResponse;
+  }
+
+  /**
+   * Wraps the given renewal to set `isRefreshing` while it is running.
+   */
+  private trackRefreshing<T extends unknown[], R>(renew: (...args: T) => Promise<R>): (...args: T) => Promise<R> {
+    return async (...args: T): Promise<R> => {
+      this.refreshCount += 1;
+      this.update();
+      try {
+        return await renew(...args);
+      } finally {
+        this.refreshCount -= 1;
+        this.update();
+      }
+    };
+  }
+
+  private async refreshAccessToken(savedRefreshToken: string): Promise<RenewedTokens | undefined> {
+    const { configuration, options, tabSync } = this;
+    if (!configuration) {
+      throw new Error('called refresh too soon - you can check that with "isReady"');
+    }
+    if (tabSync && !tabSync.isLeader) {
+      // let the leader refresh, as a refresh from this tab would invalidate its (rotated) refresh token
+      const tokens = await tabSync.waitForTokens('requestRefresh', TAB_SYNC_REFRESH_TIMEOUT_MILLISECONDS);
+      if (tokens) {
+        // the tokens are set by the `onTokens` listener
+        return this.token ? { token: this.token, idToken: this.idToken } : undefined;
+      }
+      // without a leader (e.g. it was closed) this tab is elected before the timeout and refreshes itself
+      if (!tabSync.isLeader) {
+        if (this.isStarted) {
+          this.onError(new Error('the leader tab did not refresh the tokens in time'), ErrorAction.REFRESH_TOKEN_REQUEST);
+        }
+        return;
+      }
+    }
+    let response: TokenResponse | undefined;
+    try {
+      response = await performRefreshTokenRequest(
+        configuration,
+        options.clientId,
+        options.redirectUrl,
+        savedRefreshToken,
+        options.tokenRequest?.extras,
+        this.requestor,
+      );
+      await this.validateTokenResponse(response);
+      this.setTokenResponse(response, 'refreshToken');
+      tabSync?.publishTokens(response.toJson());
+      return { token: response.accessToken, idToken: response.idToken };
+    } catch (err) {
+      if (response) {
+        // the identity provider already rotated the refresh token, the old one would end the session with the next refresh
+        await this.saveRotatedRefreshToken(savedRefreshToken, response.refreshToken);
+      }
+      if (err instanceof IdTokenValidationError) {
+        // keep the current session, only the new tokens are rejected
+        this.onError(err, ErrorAction.VALIDATE_ID_TOKEN);
+        return;
+      }
+      if (err instanceof OAuthError && err.error === 'invalid_grant') {
+        // the refresh token is expired or revoked
+        this.clearTokens();
+        this.emitter.emit('sessionExpired', { reason: 'invalid_grant', error: err });
+        await this.removeSavedSession();
+      }
+      this.onError(err, ErrorAction.REFRESH_TOKEN_REQUEST);
+    }
+  }
+
+  private async requestAudienceToken({ audience, resource, scope }: AudienceTokenOptions): Promise<AudienceTokenState> {
+    const { configuration, options } = this;
+    if (!configuration) {
+      throw new Error('called getToken too soon - you can check that with "isReady"');
+    }
+
+    const extras: StringMap = { ...options.tokenRequest?.extras };
+    if (audience) {
+      extras.audience = audience;
+    }
+    if (resource) {
+      extras.resource = resource;
+    }
+    if (scope) {
+      extras.scope = scope;
+    }
+
+    let response: TokenResponse;
+    if (options.audienceTokenGrant === 'refreshToken') {
+      response = await this.enqueueRefreshTokenRequest(async () => {
+        const refreshToken = this.refreshToken?.token;
+        if (!refreshToken) {
+          throw new Error('getToken requires a refresh token');
+        }
+        const audienceResponse = await performRefreshTokenRequest(
+          configuration,
+          options.clientId,
+          options.redirectUrl,
+          refreshToken,
+          extras,
+          this.requestor,
+        );
+        await this.saveRotatedRefreshToken(refreshToken, audienceResponse.refreshToken);
+        return audienceResponse;
+      });
+    } else {
+      const subjectToken = await this.getValidToken();
+      if (!subjectToken) {
+        throw new Error('getToken requires a logged in user');
+      }
+      response = await performTokenExchangeRequest(
+        configuration,
+        options.clientId,
+        options.redirectUrl,
+        subjectToken,
+        extras,
+        this.requestor,
+      );
+    }
+
+    return {
+      token: response.accessToken,
+      issuedAt: new Date(response.issuedAt * 1000),
+      expiresIn: (response.expiresIn || 3600) * 1000,
+    };
+  }
+
+  /**
+   * Keep the session (also in the other tabs) if the identity provider rotated the given refresh token
+   * without new tokens for this client being set.
+   */
+  private async saveRotatedRefreshToken(usedRefreshToken: string, rotatedRefreshToken: string | undefined): Promise<void> {
+    // the session may have ended or been renewed in the meantime (without a session, e.g. on page load, the saved one counts)
+    const currentRefreshToken = this.refreshToken ? this.refreshToken.token : await this.storage.getItem(AUTH_REFRESH_TOKEN_KEY);
+    if (!rotatedRefreshToken || currentRefreshToken !== usedRefreshToken) {
+      return;
+    }
+    if (this.refreshToken) {
+      this.refreshToken = { ...this.refreshToken, token: rotatedRefreshToken };
+    }
+    await this.storage.setItem(AUTH_REFRESH_TOKEN_KEY, rotatedRefreshToken);
+    this.tabSync?.publishRefreshToken(rotatedRefreshToken);
+  }
+
+  /**
+   * Run the given request after the running requests with the refresh token.
+   */
+  private enqueueRefreshTokenRequest<T>(request: () => Promise<T>): Promise<T> {
+    const result = this.refreshTokenQueue.then(request);
+    this.refreshTokenQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async silentRenew(): Promise<RenewedTokens | undefined> {
+    const { configuration, iframeHandler, options } = this;
+    if (!configuration || !iframeHandler || !options.silentRenew) {
+      throw new Error('called silent renew too soon - you can check that with "isReady"');
+    }
+
+    const nonce = new DefaultCrypto().generateRandom(NONCE_LENGTH);
+    const request = new AuthorizationRequest(
+      {
+        client_id: options.clientId,
+        redirect_uri: options.silentRenew.redirectUrl,
+        scope: options.scope,
+        response_type: AuthorizationRequest.RESPONSE_TYPE_CODE,
+        state: undefined,
+        extras: { ...options.authorizationRequest?.extras, prompt: 'none', nonce },
+        internal: { nonce },
+      },
+      undefined,
+      options.usePkce,
+    );
+
+    try {
+      const result = await iframeHandler.performSilentRequest(configuration, request);
+      if (result.error) {
+        if (isInteractionRequiredError(result.error)) {
+          // there is no session at the identity provider -> not logged in
+          const wasLoggedIn = this.token !== undefined;
+          this.clearTokens();
+          if (wasLoggedIn) {
+            this.emitter.emit('sessionExpired', { reason: 'interaction_required', error: result.error });
+          }
+          return;
+        }
+        throw result.error;
+      }
+      if (!result.response) {
+        return;
+      }
+
+      const tokenResponse = await this.exchangeAuthorizationCode(
+        result.request,
+        result.response.code,
+        'silentRenew',
+        getSessionState(result.response),
+      );
+      return tokenResponse && { token: tokenResponse.accessToken, idToken: tokenResponse.idToken };
+    } catch (err) {
+      this.onError(err, ErrorAction.SILENT_RENEW);
+    }
+  }
+
+  private canRenew(): boolean {
+    return !!this.refreshToken?.token || !!this.iframeHandler;
+  }
+
+  /**
+   * Renew the tokens with the refresh token, or silently if there is none.
+   */
+  private renewTokens(tokenState: RefreshTokenState): Promise<RenewedTokens | undefined> {
+    return tokenState.token ? this.performTokenRefresh(tokenState.token) : this.performSilentRenew();
+  }
+
+  private getRefreshAt(tokenState: RefreshTokenState): number {
+    return tokenState.issuedAt.getTime() + tokenState.expiresIn * (this.options.refreshIntervalFactor || DEFAULT_REFRESH_INTERVAL_FACTOR);
+  }
+
+  /**
+   * Refresh before the token expires: refreshes now if the refresh is due, schedules it otherwise.
+   */
+  private readonly refreshIfDue = (): void => {
+    window.clearTimeout(this.refreshTimeoutId);
+    const tokenState = this.refreshToken;
+    if (
+      !this.isStarted ||
+      !this.state.isLoggedIn ||
+      !tokenState ||
+      !this.canRenew() ||
+      this.options.disableTokenRefresh ||
+      (this.tabSync && !this.isLeaderTab)
+    ) {
+      return;
+    }
+
+    const remaining = this.getRefreshAt(tokenState) - Date.now();
+    if (remaining > 0) {
+      this.refreshTimeoutId = window.setTimeout(this.refreshIfDue, remaining);
+      return;
+    }
+    // while offline the refresh would fail, it is started again when the connection is back
+    if (this.isRefreshRunning || !this.configuration || this.networkStatus === 'offline') {
+      return;
+    }
+
+    this.isRefreshRunning = true;
+    void this.renewTokens(tokenState)
+      .catch((err: unknown) => {
+        this.onError(err, tokenState.token ? ErrorAction.REFRESH_TOKEN_REQUEST : ErrorAction.SILENT_RENEW);
+        return undefined;
+      })
+      .finally(() => {
+        this.isRefreshRunning = false;
+      })
+      .then(result => {
+        // on success the new tokens schedule the next refresh
+        if (!result && this.refreshToken === tokenState) {
+          window.clearTimeout(this.refreshTimeoutId);
+          this.refreshTimeoutId = window.setTimeout(this.refreshIfDue, REFRESH_RETRY_MILLISECONDS);
+        }
+      });
+  };
+
+  private readonly onVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.refreshIfDue();
+    }
+  };
+
+  private readonly onNetworkStatusChange = (): void => {
+    this.networkStatus = navigator.onLine ? 'online' : 'offline';
+    this.update();
+    this.refreshIfDue();
+  };
+
+  private async removeSavedSession(): Promise<void> {
+    await this.storage.removeItem(AUTH_REFRESH_TOKEN_KEY);
+    await this.storage.removeItem(AUTH_GRANTED_SCOPES_KEY);
+    await this.storage.removeItem(AUTH_SESSION_ID_KEY);
+  }
+
+  /**
+   * Load the saved refresh token. With `migrateUnprefixedRefreshToken` a token saved by a previous version
+   * (without prefix) is moved to the prefixed key.
+   */
+  private async loadRefreshToken(): Promise<string | undefined> {
+    const savedRefreshToken = await this.storage.getItem(AUTH_REFRESH_TOKEN_KEY);
+    if (savedRefreshToken || !this.options.migrateUnprefixedRefreshToken) {
+      return savedRefreshToken || undefined;
+    }
+
+    const legacyRefreshToken = await this.baseStorage.getItem(AUTH_REFRESH_TOKEN_KEY);
+    if (legacyRefreshToken) {
+      await this.storage.setItem(AUTH_REFRESH_TOKEN_KEY, legacyRefreshToken);
+      await this.baseStorage.removeItem(AUTH_REFRESH_TOKEN_KEY);
+    }
+    return legacyRefreshToken || undefined;
+  }
+
+  /**
+   * Load and remove the LoginState stored by `login` for the given authorization request state.
+   */
+  private async takeLoginState(state: string): Promise<LoginState> {
+    const saved = await this.storage.getItem(AUTH_LOGIN_STATE_KEY);
+    await this.storage.removeItem(AUTH_LOGIN_STATE_KEY);
+    const savedLoginState = saved ? (JSON.parse(saved) as { state?: string; loginState?: LoginState }) : undefined;
+    return savedLoginState?.state === state && savedLoginState.loginState ? savedLoginState.loginState : {};
+  }
+
+  /**
+   * Revoke the given tokens in the background, if enabled.
+   */
+  private revokeTokens(tokens: { refreshToken?: string; accessToken?: string }): void {
+    const { configuration, options } = this;
+    if (!options.revokeTokens || !configuration) {
+      return;
+    }
+
+    const revoke = (tokenToRevoke: string, tokenTypeHint: TokenTypeHint): void => {
+      performRevokeTokenRequest(configuration, options.clientId, tokenToRevoke, tokenTypeHint, this.revocationRequestor).catch(err =>
+        this.onError(err, ErrorAction.REVOKE_TOKEN),
+      );
+    };
+    if (tokens.refreshToken) {
+      revoke(tokens.refreshToken, 'refresh_token');
+    }
+    if (options.revokeTokens === 'all' && tokens.accessToken) {
+      revoke(tokens.accessToken, 'access_token');
+    }
+  }
+
+  private createState(): AuthClientState<TClaims> {
+    return {
+      token: this.token,
+      idToken: this.idToken,
+      claims: this.claims,
+      user: this.user,
+      grantedScopes: this.token ? this.grantedScopes : undefined,
+      loginState: this.loginState,
+      loginError: this.loginError,
+      isLoggedIn: this.token !== undefined && this.isAutoLoginDone,
+      isReady: this.isAutoLoginDone && this.isInitializationComplete,
+      networkStatus: this.networkStatus,
+      isRefreshing: this.refreshCount > 0,
+      deviceAuthorization: this.deviceAuthorization,
+    };
+  }
+
+  /**
+   * Creates a new state and notifies the listeners, if anything changed.
+   */
+  private update(): void {
+    const previous = this.state;
+    const state = this.createState();
+    const keys = Object.keys(state) as (keyof AuthClientState<TClaims>)[];
+    if (keys.every(key => state[key] === previous[key])) {
+      return;
+    }
+
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+    if (state.isReady && !previous.isReady) {
+      this.emitter.emit('ready', { isLoggedIn: state.isLoggedIn });
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { log } from '@openid/appauth';
+
+/**
+ * Where new tokens came from.
+ * - `authorizationCode`: a login with `login` (or `requestScopes`)
+ * - `refreshToken`: a refresh (also the auto login with a saved refresh token)
+ * - `silentRenew`: a `prompt=none` request in a hidden iframe
+ * - `tabSync`: another tab sent its tokens
+ * - `deviceCode`: a login with `loginWithDeviceCode`
+ */
+export type TokenSource = 'authorizationCode' | 'refreshToken' | 'silentRenew' | 'tabSync' | 'deviceCode';
+
+export interface TokenEvent {
+  source: TokenSource;
+  accessToken: string;
+  idToken?: string;
+  tokenType: string;
+  scope?: string;
+  /**
+   * seconds since epoch
+   */
+  issuedAt: number;
+  /**
+   * seconds from issuedAt
+   */
+  expiresIn?: number;
+}
+
+export interface SessionExpiredEvent {
+  /**
+   * - `invalid_grant`: the refresh token was rejected
+   * - `interaction_required`: there is no session at the identity provider anymore (silent renew)
+   * - `sessionEnded`: the session at the identity provider ended (check session iframe or front-channel logout)
+   */
+  reason: 'invalid_grant' | 'interaction_required' | 'sessionEnded';
+  error?: unknown;
+}
+
+export interface LogoutEvent {
+  /**
+   * - `logout`: `logout` was called
+   * - `logoutLocal`: `logoutLocal` was called
+   * - `otherTab`: the user logged out in another tab
+   */
+  reason: 'logout' | 'logoutLocal' | 'otherTab';
+}
+
+export interface ReadyEvent {
+  isLoggedIn: boolean;
+}
+
+export interface AuthEventMap {
+  /**
+   * New tokens while not logged in, i.e. a login or the restore of a session.
+   */
+  login: TokenEvent;
+  /**
+   * New tokens while logged in.
+   */
+  tokenRefreshed: TokenEvent;
+  sessionExpired: SessionExpiredEvent;
+  logout: LogoutEvent;
+  /**
+   * The initialization (auto login, handling of the redirect) is done.
+   */
+  ready: ReadyEvent;
+}
+
+export type AuthEventListener<K extends keyof AuthEventMap> = (event: AuthEventMap[K]) => void;
+
+type UntypedListener = (event: unknown) => void;
+
+/**
+ * A typed emitter for the auth lifecycle events.
+ */
+export class AuthEventEmitter {
+  private readonly listeners: Map<keyof AuthEventMap, UntypedListener[]> = new Map<keyof AuthEventMap, UntypedListener[]>();
+
+  /**
+   * @returns a function to remove the listener
+   */
+  public on<K extends keyof AuthEventMap>(name: K, listener: AuthEventListener<K>): () => void {
+    const untypedListener = listener as UntypedListener;
+    this.listeners.set(name, (this.listeners.get(name) || []).concat(untypedListener));
+    return () => {
+      this.listeners.set(
+        name,
+        (this.listeners.get(name) || []).filter(other => other !== untypedListener),
+      );
+    };
+  }
+
+  public emit<K extends keyof AuthEventMap>(name: K, event: AuthEventMap[K]): void {
+    (this.listeners.get(name) || []).forEach(listener => {
+      try {
+        listener(event);
+      } catch (err) {
+        // a failing listener must not break the auth flow
+        log(`the ${name} listener failed`, err);
+      }
+    });
+  }
+}
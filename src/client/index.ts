@@ -0,0 +1,25 @@
+export {
+  AudienceTokenOptions,
+  AuthClient,
+  AuthClientOptions,
+  AuthClientState,
+  AuthenticateOptions,
+  AuthStateListener,
+  DeviceLoginOptions,
+  ErrorAction,
+  ErrorHandler,
+  LoginOptions,
+  LoginState,
+  NetworkStatus,
+} from './authClient';
+export { GRANT_TYPE_TOKEN_EXCHANGE, TOKEN_TYPE_ACCESS_TOKEN } from './api';
+export {
+  AuthEventEmitter,
+  AuthEventListener,
+  AuthEventMap,
+  LogoutEvent,
+  ReadyEvent,
+  SessionExpiredEvent,
+  TokenEvent,
+  TokenSource,
+} from './authEvents';
@@ -0,0 +1,51 @@
+import { TokenResponseJson } from '@openid/appauth';
+import { MemoryStorageBackend } from '../appauth/memoryStorageBackend';
+import { TabSync } from './tabSync';
+
+const CHANNEL_NAME = 'fake-channel';
+
+describe('TabSync without BroadcastChannel', () => {
+  const { BroadcastChannel } = window;
+  let setItem: jest.SpyInstance;
+  const tabs: TabSync[] = [];
+
+  beforeEach(() => {
+    Object.assign(window, { BroadcastChannel: undefined });
+    setItem = jest.spyOn(Storage.prototype, 'setItem');
+  });
+
+  afterEach(() => {
+    tabs.splice(0).forEach(tab => tab.stop());
+    setItem.mockRestore();
+    Object.assign(window, { BroadcastChannel });
+  });
+
+  /**
+   * Sends the storage events of the last message to the other tabs, as jsdom does not send them to the same window.
+   */
+  function deliverLastMessage(): void {
+    const calls = setItem.mock.calls.filter(([key]) => key === CHANNEL_NAME);
+    window.dispatchEvent(new StorageEvent('storage', { key: CHANNEL_NAME, newValue: calls[calls.length - 1][1] as string }));
+  }
+
+  it('sends the tokens through the configured storage only', async () => {
+    const storage = new MemoryStorageBackend();
+    const sender = new TabSync(CHANNEL_NAME, storage);
+    const receiver = new TabSync(CHANNEL_NAME, storage);
+    tabs.push(sender, receiver);
+    const onTokens = jest.fn();
+    receiver.setListeners({ onTokens });
+    sender.start();
+    receiver.start();
+
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    const tokens: TokenResponseJson = { access_token: 'fake-access-token', refresh_token: 'fake-refresh-token' };
+    sender.publishTokens(tokens);
+    await new Promise(resolve => setTimeout(resolve));
+    deliverLastMessage();
+    await new Promise(resolve => setTimeout(resolve));
+
+    expect(setItem.mock.calls.map(([, value]) => String(value)).filter(value => value.indexOf('fake-') >= 0)).toEqual([]);
+    expect(onTokens).toHaveBeenCalledWith(tokens);
+  });
+});
@@ -0,0 +1,309 @@
+import { DefaultCrypto, StorageBackend, TokenResponseJson } from '@openid/appauth';
+
+/**
+ * `sessionEnded` if the session ended at the identity provider, e.g. with a front-channel logout.
+ */
+export type TabLogoutReason = 'logout' | 'sessionEnded';
+
+type TabMessage =
+  | { type: 'hello'; tabId: string }
+  | { type: 'heartbeat'; tabId: string }
+  | { type: 'resign'; tabId: string }
+  | { type: 'tokens'; tabId: string; tokens: TokenResponseJson }
+  | { type: 'refreshToken'; tabId: string; refreshToken: string }
+  | { type: 'requestTokens'; tabId: string }
+  | { type: 'requestRefresh'; tabId: string }
+  | { type: 'logout'; tabId: string; reason: TabLogoutReason };
+
+interface TabChannel {
+  postMessage: (message: TabMessage) => void;
+  close: () => void;
+}
+
+export interface TabSyncListeners {
+  /**
+   * Another tab received a new set of tokens.
+   */
+  onTokens?: (tokens: TokenResponseJson) => void;
+  /**
+   * Another tab rotated the refresh token without new tokens for this client, e.g. with `getToken`.
+   */
+  onRefreshToken?: (refreshToken: string) => void;
+  /**
+   * Another tab logged out, or the session ended at the identity provider.
+   */
+  onLogout?: (reason: TabLogoutReason) => void;
+  /**
+   * Only called on the leader: another tab needs fresh tokens.
+   */
+  onRefreshRequested?: () => void;
+  onLeaderChange?: (isLeader: boolean) => void;
+}
+
+const HEARTBEAT_INTERVAL_MILLISECONDS = 2000;
+const LEADER_TIMEOUT_MILLISECONDS = 5000;
+const ELECTION_DELAY_MILLISECONDS = 500;
+
+function createBroadcastChannel(name: string, onMessage: (message: TabMessage) => void): TabChannel {
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = event => onMessage(event.data as TabMessage);
+  return channel;
+}
+
+/**
+ * The messages with tokens, which the storage channel keeps in the configured storage.
+ */
+const TOKEN_MESSAGE_TYPES: TabMessage['type'][] = ['tokens', 'refreshToken'];
+const TOKEN_MESSAGE_KEY_PREFIX = 'AUTH_TAB_SYNC_';
+
+/**
+ * Fallback for browsers without BroadcastChannel.
+ * The message is written to the localStorage and removed immediately, which triggers a storage event in all other tabs.
+ * Only the type of a message with tokens is sent this way, the message itself is written to the configured
+ * storage (which may encrypt it) and read from there by the other tabs.
+ */
+function createStorageChannel(name: string, onMessage: (message: TabMessage) => void, storage: StorageBackend): TabChannel {
+  // keep the order of the messages, although the storage is asynchronous
+  let sent = Promise.resolve();
+  let received = Promise.resolve();
+
+  const receive = async (signal: TabMessage): Promise<void> => {
+    if (TOKEN_MESSAGE_TYPES.indexOf(signal.type) < 0) {
+      onMessage(signal);
+      return;
+    }
+    const message = await storage.getItem(TOKEN_MESSAGE_KEY_PREFIX + signal.type);
+    if (message) {
+      onMessage(JSON.parse(message) as TabMessage);
+    }
+  };
+  const send = async (message: TabMessage): Promise<void> => {
+    let signal = message;
+    if (TOKEN_MESSAGE_TYPES.indexOf(message.type) >= 0) {
+      await storage.setItem(TOKEN_MESSAGE_KEY_PREFIX + message.type, JSON.stringify(message));
+      signal = { type: message.type, tabId: message.tabId } as TabMessage;
+    } else if (message.type === 'logout') {
+      await Promise.all(TOKEN_MESSAGE_TYPES.map(type => storage.removeItem(TOKEN_MESSAGE_KEY_PREFIX + type)));
+    }
+    // the random part makes sure that the same message twice still triggers an event
+    localStorage.setItem(name, JSON.stringify({ message: signal, random: Math.random() }));
+    localStorage.removeItem(name);
+  };
+
+  const listener = (event: StorageEvent): void => {
+    if (event.key === name && event.newValue) {
+      const signal = (JSON.parse(event.newValue) as { message: TabMessage }).message;
+      received = received.then(() => receive(signal)).catch(() => undefined);
+    }
+  };
+  window.addEventListener('storage', listener);
+
+  return {
+    postMessage: message => {
+      sent = sent.then(() => send(message)).catch(() => undefined);
+    },
+    close: () => window.removeEventListener('storage', listener),
+  };
+}
+
+/**
+ * Coordinates the auth state between all tabs of the same origin.
+ *
+ * One tab is elected as leader (the one with the lowest id which is still alive) and is the only one
+ * which refreshes the tokens. New tokens and logouts are sent to all other tabs.
+ */
+export class TabSync {
+  public readonly tabId: string = new DefaultCrypto().generateRandom(16);
+
+  private channel?: TabChannel;
+  private intervalId?: number;
+  private electionTimeoutId?: number;
+  private leader: boolean = false;
+  private lastHeartbeat: number = 0;
+  private latestTokens?: TokenResponseJson;
+  private listeners: TabSyncListeners = {};
+  private tokenWaiters: { resolve: (tokens: TokenResponseJson | undefined) => void; timeoutId: number }[] = [];
+
+  /**
+   * @param storage keeps the tokens if the browser has no BroadcastChannel, has to be shared between the tabs
+   */
+  public constructor(private readonly channelName: string, private readonly storage: StorageBackend) {}
+
+  public get isLeader(): boolean {
+    return this.leader;
+  }
+
+  public setListeners(listeners: TabSyncListeners): void {
+    this.listeners = listeners;
+  }
+
+  public start(): void {
+    if (this.channel) {
+      return;
+    }
+
+    const onMessage = (message: TabMessage): void => this.handleMessage(message);
+    this.channel =
+      typeof BroadcastChannel !== 'undefined'
+        ? createBroadcastChannel(this.channelName, onMessage)
+        : createStorageChannel(this.channelName, onMessage, this.storage);
+
+    // a running leader answers with a heartbeat, otherwise this tab claims the leadership
+    this.post({ type: 'hello', tabId: this.tabId });
+    this.scheduleElection();
+    this.intervalId = window.setInterval(() => this.tick(), HEARTBEAT_INTERVAL_MILLISECONDS);
+    window.addEventListener('pagehide', this.resign);
+  }
+
+  public stop(): void {
+    if (!this.channel) {
+      return;
+    }
+
+    this.resign();
+    window.removeEventListener('pagehide', this.resign);
+    clearInterval(this.intervalId);
+    clearTimeout(this.electionTimeoutId);
+    this.channel.close();
+    this.channel = undefined;
+    this.resolveTokenWaiters(undefined);
+  }
+
+  /**
+   * Send new tokens to all other tabs.
+   */
+  public publishTokens(tokens: TokenResponseJson): void {
+    this.latestTokens = tokens;
+    this.post({ type: 'tokens', tabId: this.tabId, tokens });
+  }
+
+  /**
+   * Send a rotated refresh token to all other tabs, which keep their access token.
+   */
+  public publishRefreshToken(refreshToken: string): void {
+    this.setLatestRefreshToken(refreshToken);
+    this.post({ type: 'refreshToken', tabId: this.tabId, refreshToken });
+  }
+
+  /**
+   * Log out all other tabs.
+   */
+  public publishLogout(reason: TabLogoutReason = 'logout'): void {
+    this.latestTokens = undefined;
+    this.post({ type: 'logout', tabId: this.tabId, reason });
+  }
+
+  /**
+   * Ask the other tabs for tokens.
+   * @param request `requestTokens` to get the current tokens of any tab, `requestRefresh` to let the leader refresh them
+   * @returns the tokens or undefined if no tab answered in time
+   */
+  public waitForTokens(request: 'requestTokens' | 'requestRefresh', timeoutMilliseconds: number): Promise<TokenResponseJson | undefined> {
+    if (!this.channel) {
+      return Promise.resolve(undefined);
+    }
+
+    return new Promise(resolve => {
+      const timeoutId = window.setTimeout(() => {
+        this.tokenWaiters = this.tokenWaiters.filter(waiter => waiter.resolve !== resolve);
+        resolve(undefined);
+      }, timeoutMilliseconds);
+      this.tokenWaiters.push({ resolve, timeoutId });
+      this.post({ type: request, tabId: this.tabId });
+    });
+  }
+
+  private readonly resign = (): void => {
+    if (this.leader) {
+      this.post({ type: 'resign', tabId: this.tabId });
+      this.setLeader(false);
+    }
+  };
+
+  private tick(): void {
+    if (this.leader) {
+      this.post({ type: 'heartbeat', tabId: this.tabId });
+    } else if (Date.now() - this.lastHeartbeat > LEADER_TIMEOUT_MILLISECONDS) {
+      this.setLeader(true);
+      this.post({ type: 'heartbeat', tabId: this.tabId });
+    }
+  }
+
+  private scheduleElection(): void {
+    this.lastHeartbeat = 0;
+    clearTimeout(this.electionTimeoutId);
+    this.electionTimeoutId = window.setTimeout(() => this.tick(), ELECTION_DELAY_MILLISECONDS);
+  }
+
+  private handleMessage(message: TabMessage): void {
+    switch (message.type) {
+      case 'hello':
+        if (this.leader) {
+          this.post({ type: 'heartbeat', tabId: this.tabId });
+        }
+        break;
+      case 'heartbeat':
+        if (!this.leader || message.tabId < this.tabId) {
+          // two leaders -> the one with the lower id wins
+          this.lastHeartbeat = Date.now();
+          this.setLeader(false);
+        } else {
+          this.post({ type: 'heartbeat', tabId: this.tabId });
+        }
+        break;
+      case 'resign':
+        this.scheduleElection();
+        break;
+      case 'tokens':
+        this.latestTokens = message.tokens;
+        this.listeners.onTokens?.(message.tokens);
+        this.resolveTokenWaiters(message.tokens);
+        break;
+      case 'refreshToken':
+        this.setLatestRefreshToken(message.refreshToken);
+        this.listeners.onRefreshToken?.(message.refreshToken);
+        break;
+      case 'requestTokens':
+        if (this.latestTokens) {
+          this.post({ type: 'tokens', tabId: this.tabId, tokens: this.latestTokens });
+        }
+        break;
+      case 'requestRefresh':
+        if (this.leader) {
+          this.listeners.onRefreshRequested?.();
+        }
+        break;
+      case 'logout':
+        this.latestTokens = undefined;
+        this.listeners.onLogout?.(message.reason);
+        break;
+    }
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (this.leader !== isLeader) {
+      this.leader = isLeader;
+      this.listeners.onLeaderChange?.(isLeader);
+    }
+  }
+
+  private setLatestRefreshToken(refreshToken: string): void {
+    if (this.latestTokens) {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      this.latestTokens = { ...this.latestTokens, refresh_token: refreshToken };
+    }
+  }
+
+  private resolveTokenWaiters(tokens: TokenResponseJson | undefined): void {
+    const waiters = this.tokenWaiters;
+    this.tokenWaiters = [];
+    waiters.forEach(waiter => {
+      clearTimeout(waiter.timeoutId);
+      waiter.resolve(tokens);
+    });
+  }
+
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+}
@@ -1,15 +1,75 @@
-import React, { memo, ReactNode } from 'react';
+import React, { memo, ReactNode, useCallback, useEffect, useState } from 'react';
 
+import { LoginOptions } from '../../client/authClient';
 import { useLoginContext } from './AuthProvider';
 
 interface Props {
   children: ReactNode;
+  /**
+   * Shown until the AuthProvider is ready and while the automatic login is running.
+   */
+  loading?: ReactNode;
+  /**
+   * Shown if the user is not logged in.
+   */
+  fallback?: ReactNode;
+  /**
+   * Start the login if the user is not logged in.
+   */
+  autoLogin?: boolean;
+  /**
+   * Passed to `login` by the automatic login.
+   */
+  authorizationRequest?: LoginOptions;
+  /**
+   * Rendered if the automatic login failed (e.g. the login popup was closed) or if the login after the redirect back
+   * failed (e.g. the code exchange), instead of starting the automatic login again.
+   * `retry` starts the login again. The `fallback` is shown if this is not set.
+   */
+  onError?: (error: unknown, retry: () => void) => ReactNode;
+  /**
+   * The name of the AuthProvider to use.
+   */
+  name?: string;
 }
 
-const AuthGuard = ({ children }: Props): JSX.Element => {
-  const { isLoggedIn } = useLoginContext();
+const AuthGuard = ({ children, loading, fallback, autoLogin, authorizationRequest, onError, name }: Props): JSX.Element => {
+  const { isLoggedIn, isReady, login, loginError: failedLogin } = useLoginContext(name);
+  const [isLoginStarted, setIsLoginStarted] = useState(false);
+  const [loginError, setLoginError] = useState<{ error: unknown }>();
 
-  return isLoggedIn ? <>{children}</> : <></>;
+  useEffect(() => {
+    if (isLoggedIn) {
+      // log in again after a logout
+      setIsLoginStarted(false);
+      return;
+    }
+    // a failed login is not started again automatically, it would fail the same way
+    if (!autoLogin || !isReady || isLoginStarted || failedLogin !== undefined) {
+      return;
+    }
+
+    setIsLoginStarted(true);
+    login(authorizationRequest).catch(error => setLoginError({ error }));
+  }, [authorizationRequest, autoLogin, failedLogin, isLoggedIn, isLoginStarted, isReady, login]);
+
+  const retry = useCallback(() => {
+    setLoginError(undefined);
+    setIsLoginStarted(true);
+    login(authorizationRequest).catch(error => setLoginError({ error }));
+  }, [authorizationRequest, login]);
+
+  if (isLoggedIn) {
+    return <>{children}</>;
+  }
+  const error = loginError || (failedLogin !== undefined ? { error: failedLogin } : undefined);
+  if (error) {
+    return <>{onError ? onError(error.error, retry) : fallback}</>;
+  }
+  if (!isReady || autoLogin) {
+    return <>{loading}</>;
+  }
+  return <>{fallback}</>;
 };
 
 export default memo(AuthGuard);
@@ -1,23 +1,90 @@
-import React, { FC, ReactNode, useContext } from 'react';
+import React, { ReactNode, useContext, useMemo } from 'react';
+import { IdTokenClaims } from '../../appauth/jwt';
 import { AuthOptions, AuthState, useAuth } from '../../hooks/Auth';
 
-export const AuthContext = React.createContext<AuthState | undefined>(undefined);
+/**
+ * The state of an AuthProvider with any claims, a context can not be generic.
+ * The claims are typed by the AuthProvider and `useLoginContext`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyAuthState = AuthState<any>;
 
-export const useLoginContext = (): AuthState => {
-  const loginState = useContext(AuthContext);
+export const AuthContext = React.createContext<AnyAuthState | undefined>(undefined);
+
+/**
+ * The states of all named AuthProviders above.
+ */
+const NamedAuthContext = React.createContext<Record<string, AnyAuthState | undefined>>({});
+
+/**
+ * @typeParam TClaims the claims of the ID token of your identity provider
+ * @param name the name of the AuthProvider, omit it for the AuthProvider without name
+ */
+export const useLoginContext = <TClaims extends IdTokenClaims = IdTokenClaims>(name?: string): AuthState<TClaims> => {
+  const defaultLoginState = useContext(AuthContext);
+  const namedLoginStates = useContext(NamedAuthContext);
+  const loginState = name === undefined ? defaultLoginState : namedLoginStates[name];
   if (loginState === undefined) {
-    throw new Error('login state not injected\nwrap your components with the AuthProvider');
+    throw new Error(
+      name === undefined
+        ? 'login state not injected\nwrap your components with the AuthProvider'
+        : `login state "${name}" not injected\nwrap your components with the AuthProvider named "${name}"`,
+    );
   }
 
   return loginState;
 };
 
-export interface AuthProviderProps extends AuthOptions {
+/**
+ * Pass `client` to use an existing AuthClient instead of the options.
+ */
+export type AuthProviderProps<TClaims extends IdTokenClaims = IdTokenClaims> = AuthOptions<TClaims> & {
+  children: ReactNode;
+  /**
+   * Set a name to use several AuthProviders at the same time (e.g. for different identity providers).
+   * The state of a named AuthProvider is only available with `useLoginContext(name)`.
+   */
+  name?: string;
+};
+
+export interface AuthStateProviderProps<TClaims extends IdTokenClaims = IdTokenClaims> {
+  state: AuthState<TClaims>;
   children: ReactNode;
+  /**
+   * See `AuthProviderProps.name`.
+   */
+  name?: string;
 }
 
-export const AuthProvider: FC<AuthProviderProps> = ({ children, ...options }) => {
-  const state = useAuth(options);
+/**
+ * Provides the given state to `useLoginContext`, e.g. a state created outside of the AuthProvider or a mock in tests.
+ */
+export const AuthStateProvider = <TClaims extends IdTokenClaims = IdTokenClaims>({
+  state,
+  children,
+  name,
+}: AuthStateProviderProps<TClaims>): JSX.Element => {
+  const namedStates = useContext(NamedAuthContext);
+  const namedStatesWithThis = useMemo(
+    () => (name === undefined ? namedStates : { ...namedStates, [name]: state }),
+    [name, namedStates, state],
+  );
+
+  if (name === undefined) {
+    return <AuthContext.Provider value={state}>{children}</AuthContext.Provider>;
+  }
+  return <NamedAuthContext.Provider value={namedStatesWithThis}>{children}</NamedAuthContext.Provider>;
+};
 
-  return <AuthContext.Provider value={state}>{children}</AuthContext.Provider>;
+export const AuthProvider = <TClaims extends IdTokenClaims = IdTokenClaims>({
+  children,
+  name,
+  ...options
+}: AuthProviderProps<TClaims>): JSX.Element => {
+  const state = useAuth<TClaims>(options);
+  return (
+    <AuthStateProvider state={state} name={name}>
+      {children}
+    </AuthStateProvider>
+  );
 };
@@ -0,0 +1,24 @@
+import React, { memo, ReactNode } from 'react';
+
+import { AuthorizationPolicy, useAuthorization } from '../../hooks/authorization';
+
+interface Props {
+  children: ReactNode;
+  policy: AuthorizationPolicy;
+  /**
+   * Shown if the user is not logged in or does not fulfill the policy.
+   */
+  fallback?: ReactNode;
+  /**
+   * The name of the AuthProvider to use.
+   */
+  name?: string;
+}
+
+const RequireClaims = ({ children, policy, fallback, name }: Props): JSX.Element => {
+  const { isAuthorized } = useAuthorization(policy, name);
+
+  return <>{isAuthorized ? children : fallback}</>;
+};
+
+export default memo(RequireClaims);
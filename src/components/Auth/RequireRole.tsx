@@ -0,0 +1,40 @@
+import React, { memo, ReactNode, useMemo } from 'react';
+
+import { RoleMapper, useAuthorization } from '../../hooks/authorization';
+
+interface Props {
+  children: ReactNode;
+  role?: string;
+  /**
+   * The user needs at least one of these roles.
+   */
+  anyOf?: string[];
+  /**
+   * The user needs all of these roles.
+   */
+  allOf?: string[];
+  /**
+   * @default DEFAULT_ROLE_MAPPERS
+   */
+  roleMappers?: RoleMapper[];
+  /**
+   * Shown if the user is not logged in or does not have the roles.
+   */
+  fallback?: ReactNode;
+  /**
+   * The name of the AuthProvider to use.
+   */
+  name?: string;
+}
+
+const RequireRole = ({ children, role, anyOf, allOf, roleMappers, fallback, name }: Props): JSX.Element => {
+  const policy = useMemo(
+    () => ({ anyRoles: anyOf, allRoles: role ? [role, ...(allOf || [])] : allOf, roleMappers }),
+    [allOf, anyOf, role, roleMappers],
+  );
+  const { isAuthorized } = useAuthorization(policy, name);
+
+  return <>{isAuthorized ? children : fallback}</>;
+};
+
+export default memo(RequireRole);
@@ -1,2 +1,4 @@
-export { useLoginContext, AuthProvider, AuthContext } from './AuthProvider';
+export { useLoginContext, AuthProvider, AuthContext, AuthStateProvider } from './AuthProvider';
 export { default as AuthGuard } from './AuthGuard';
+export { default as RequireClaims } from './RequireClaims';
+export { default as RequireRole } from './RequireRole';
@@ -0,0 +1,138 @@
+import React, { FC } from 'react';
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import { AuthClient, AuthClientOptions, AuthProvider, IdTokenClaims, MemoryStorageBackend, useLoginContext } from '../index';
+import { FakeLocation, FakeOidcProvider } from '../testing';
+import { AuthOptions, AuthState, useAuth } from './Auth';
+
+const APP_URL = 'https://app.example.test/';
+
+interface CustomClaims extends IdTokenClaims {
+  name: string;
+}
+
+describe('useAuth with a FakeOidcProvider', () => {
+  let provider: FakeOidcProvider;
+  let storage: MemoryStorageBackend;
+  let container: HTMLDivElement;
+  let states: AuthState[];
+
+  const AuthStateRecorder: FC<{ authOptions: AuthOptions }> = ({ authOptions }) => {
+    states.push(useAuth(authOptions));
+    return null;
+  };
+
+  function latestState(): AuthState {
+    return states[states.length - 1];
+  }
+
+  async function renderAuth(authOptions: AuthOptions): Promise<void> {
+    await act(async () => {
+      render(<AuthStateRecorder authOptions={authOptions} />, container);
+      return Promise.resolve();
+    });
+  }
+
+  async function waitForState(predicate: (state: AuthState) => boolean): Promise<AuthState> {
+    for (let attempt = 0; attempt < 100 && !predicate(latestState()); attempt++) {
+      await act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+    }
+    expect(predicate(latestState())).toBe(true);
+    return latestState();
+  }
+
+  function createAuthOptions(location: FakeLocation): AuthClientOptions {
+    return provider.createClientOptions({ location, storage, options: { usePkce: true } });
+  }
+
+  beforeEach(() => {
+    provider = new FakeOidcProvider({ claims: { sub: '42', name: 'Jane' } });
+    storage = new MemoryStorageBackend();
+    container = document.createElement('div');
+    states = [];
+  });
+
+  afterEach(() => {
+    // stops the client of the hook
+    act(() => {
+      unmountComponentAtNode(container);
+    });
+  });
+
+  it('logs in with a redirect and PKCE and restores the login after the redirect back', async () => {
+    const location = provider.createLocation(APP_URL);
+    await renderAuth(createAuthOptions(location));
+    const readyState = await waitForState(state => state.isReady);
+    expect(readyState.isLoggedIn).toBe(false);
+
+    const navigation = location.nextNavigation();
+    await act(() => readyState.login());
+    const redirectUrl = new URL(await navigation);
+    expect(redirectUrl.searchParams.get('code')).toEqual(expect.any(String));
+
+    // the page of the redirect back
+    act(() => {
+      unmountComponentAtNode(container);
+    });
+    await renderAuth(createAuthOptions(location));
+    const state = await waitForState(current => current.isLoggedIn);
+
+    expect(state.user).toMatchObject({ sub: '42', name: 'Jane' });
+    expect(new URL(location.assignedUrls[0]).searchParams.get('code_challenge_method')).toBe('S256');
+    const tokenRequest = provider.requests.find(request => request.body.grant_type === 'authorization_code');
+    expect(tokenRequest?.body.code_verifier).toEqual(expect.any(String));
+  });
+
+  it('keeps the client if only the callbacks change', async () => {
+    const location = provider.createLocation(APP_URL);
+    await renderAuth({ ...createAuthOptions(location), onError: jest.fn() });
+    const { client } = await waitForState(state => state.isReady);
+
+    await renderAuth({ ...createAuthOptions(location), onError: jest.fn() });
+
+    expect(latestState().client).toBe(client);
+  });
+
+  it('provides the state of a given client with its claims', async () => {
+    const location = provider.createLocation(APP_URL);
+    const loginClient = new AuthClient(createAuthOptions(location));
+    loginClient.start();
+    const navigation = location.nextNavigation();
+    await new Promise<void>(resolve => loginClient.events.on('ready', () => resolve()));
+    await loginClient.login();
+    await navigation;
+    loginClient.stop();
+
+    const client = new AuthClient<CustomClaims>(createAuthOptions(location));
+    const names: (string | undefined)[] = [];
+    const Profile: FC = () => {
+      names.push(useLoginContext<CustomClaims>().user?.name);
+      return null;
+    };
+    await act(async () => {
+      render(
+        <AuthProvider client={client}>
+          <Profile />
+        </AuthProvider>,
+        container,
+      );
+      return Promise.resolve();
+    });
+    for (let attempt = 0; attempt < 100 && !client.getState().isLoggedIn; attempt++) {
+      await act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+    }
+
+    // a given client is not stopped by the AuthProvider
+    client.stop();
+    expect(names[names.length - 1]).toBe('Jane');
+  });
+
+  it('uses the initial state until the client is ready', async () => {
+    const location = provider.createLocation(APP_URL);
+    await renderAuth({ ...createAuthOptions(location), initialState: { isLoggedIn: true, user: { name: 'Jane' } } });
+
+    expect(states[0]).toMatchObject({ isReady: false, isLoggedIn: true, user: { name: 'Jane' } });
+    const readyState = await waitForState(state => state.isReady);
+    expect(readyState.isLoggedIn).toBe(false);
+  });
+});
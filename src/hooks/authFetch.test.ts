@@ -0,0 +1,96 @@
+import { AuthClient } from '../client/authClient';
+import { createAuthFetch } from './authFetch';
+
+type TokenSource = Pick<AuthClient, 'checkToken' | 'getValidToken'>;
+
+const API_URL = 'https://api.example.test/users';
+
+function createTokenSource(token: string | undefined, refreshedToken?: string): TokenSource {
+  return {
+    getValidToken: jest.fn(() => Promise.resolve(token)),
+    checkToken: jest.fn(() => Promise.resolve(refreshedToken ? { token: refreshedToken } : undefined)),
+  } as unknown as TokenSource;
+}
+
+function getAuthorization(call: unknown[]): string | undefined {
+  return new Headers((call[1] as RequestInit | undefined)?.headers).get('Authorization') ?? undefined;
+}
+
+describe('createAuthFetch', () => {
+  let fetch: jest.Mock;
+
+  beforeEach(() => {
+    fetch = jest.fn(() => Promise.resolve({ status: 200 }));
+    Object.assign(window, { fetch });
+  });
+
+  async function sendsToken(url: string, allowedUrls: string[]): Promise<boolean> {
+    const authFetch = createAuthFetch(createTokenSource('fake-access-token'), { allowedUrls });
+    fetch.mockClear();
+    await authFetch(url);
+    return getAuthorization(fetch.mock.calls[0]) === 'Bearer fake-access-token';
+  }
+
+  it('sends the token to the allowed origin', async () => {
+    expect(await sendsToken('https://api.example.test/users', ['https://api.example.test'])).toBe(true);
+  });
+
+  it('does not send the token to an origin which starts with the allowed one', async () => {
+    expect(await sendsToken('https://api.example.test.evil.test/users', ['https://api.example.test'])).toBe(false);
+    expect(await sendsToken('https://api.example.test:8443/users', ['https://api.example.test'])).toBe(false);
+  });
+
+  it('matches the allowed path on a segment boundary', async () => {
+    expect(await sendsToken('https://example.test/api', ['https://example.test/api'])).toBe(true);
+    expect(await sendsToken('https://example.test/api/users', ['https://example.test/api/'])).toBe(true);
+    expect(await sendsToken('https://example.test/api-docs', ['https://example.test/api'])).toBe(false);
+  });
+
+  it('gets the current token for each request', async () => {
+    const tokenSource = createTokenSource('fake-access-token-1');
+    const authFetch = createAuthFetch(tokenSource, { allowedUrls: [API_URL] });
+    await authFetch(API_URL);
+    (tokenSource.getValidToken as jest.Mock).mockResolvedValue('fake-access-token-2');
+    await authFetch(API_URL);
+
+    expect(fetch.mock.calls.map(getAuthorization)).toEqual(['Bearer fake-access-token-1', 'Bearer fake-access-token-2']);
+  });
+
+  it('refreshes the token and retries the request once on a 401 response', async () => {
+    const tokenSource = createTokenSource('fake-access-token-1', 'fake-access-token-2');
+    const onSessionExpired = jest.fn();
+    fetch.mockResolvedValueOnce({ status: 401 });
+
+    const response = await createAuthFetch(tokenSource, { allowedUrls: [API_URL], onSessionExpired })(API_URL);
+
+    expect(response.status).toBe(200);
+    expect(tokenSource.checkToken).toHaveBeenCalledWith(true);
+    expect(fetch.mock.calls.map(getAuthorization)).toEqual(['Bearer fake-access-token-1', 'Bearer fake-access-token-2']);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('calls onSessionExpired if the token can not be refreshed', async () => {
+    const onSessionExpired = jest.fn();
+    fetch.mockResolvedValue({ status: 401 });
+
+    const response = await createAuthFetch(createTokenSource('fake-access-token-1'), { allowedUrls: [API_URL], onSessionExpired })(API_URL);
+
+    expect(response.status).toBe(401);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls onSessionExpired if the retried request is still unauthorized', async () => {
+    const onSessionExpired = jest.fn();
+    fetch.mockResolvedValue({ status: 401 });
+
+    const response = await createAuthFetch(createTokenSource('fake-access-token-1', 'fake-access-token-2'), {
+      allowedUrls: [API_URL],
+      onSessionExpired,
+    })(API_URL);
+
+    expect(response.status).toBe(401);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { useMemo } from 'react';
+import { AuthClient } from '../client/authClient';
+import { useLoginContext } from '../components/Auth/AuthProvider';
+
+export type AuthFetch = (input: RequestInfo, init?: RequestInit) => Promise<Response>;
+
+export interface AuthFetchOptions {
+  /**
+   * The urls the access token may be sent to. A string matches all urls of its origin and below its path
+   * (e.g. `https://api.example.com` or `https://example.com/api`, which does not match `https://example.com/api-docs`).
+   * Requests to other urls are sent without the token.
+   * @default the origin of the app
+   */
+  allowedUrls?: (string | RegExp)[];
+  /**
+   * Called if the request is still unauthorized (401) after refreshing the token.
+   */
+  onSessionExpired?: () => void;
+  /**
+   * The name of the AuthProvider whose token is used.
+   */
+  name?: string;
+}
+
+const HTTP_UNAUTHORIZED = 401;
+
+function isAllowedUrl(url: URL, allowedUrls: (string | RegExp)[] | undefined): boolean {
+  if (!allowedUrls) {
+    return url.origin === window.location.origin;
+  }
+
+  return allowedUrls.some(allowed =>
+    typeof allowed === 'string' ? isBelowUrl(url, new URL(allowed, window.location.href)) : allowed.test(url.href),
+  );
+}
+
+/**
+ * Compares the origin exactly and the path on a segment boundary, so `https://example.com/api` neither matches
+ * `https://example.com.evil.test` nor `https://example.com/api-docs`.
+ */
+function isBelowUrl(url: URL, allowedUrl: URL): boolean {
+  if (url.origin !== allowedUrl.origin) {
+    return false;
+  }
+
+  const allowedPath = allowedUrl.pathname.replace(/\/+$/, '');
+  return url.pathname === allowedPath || url.pathname.indexOf(`${allowedPath}/`) === 0;
+}
+
+/**
+ * Creates a fetch function which adds the access token as bearer token.
+ * The token is taken from the client (and refreshed if needed) before each request, so a background refresh
+ * is picked up. On a 401 response the token is refreshed and the request is retried once.
+ */
+export function createAuthFetch(client: Pick<AuthClient, 'checkToken' | 'getValidToken'>, options?: AuthFetchOptions): AuthFetch {
+  return async (input, init) => {
+    const url = new URL(typeof input === 'string' ? input : input.url, window.location.href);
+    if (!isAllowedUrl(url, options?.allowedUrls)) {
+      return fetch(input, init);
+    }
+
+    const send = (token: string | undefined): Promise<Response> => {
+      const headers = new Headers(init?.headers || (typeof input === 'string' ? undefined : input.headers));
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+      // a Request can only be sent once, so clone it for a possible retry
+      return fetch(typeof input === 'string' ? input : input.clone(), { ...init, headers });
+    };
+
+    const response = await send(await client.getValidToken());
+    if (response.status !== HTTP_UNAUTHORIZED) {
+      return response;
+    }
+
+    const refreshed = await client.checkToken(true);
+    if (!refreshed) {
+      options?.onSessionExpired?.();
+      return response;
+    }
+
+    const retryResponse = await send(refreshed.token);
+    if (retryResponse.status === HTTP_UNAUTHORIZED) {
+      options?.onSessionExpired?.();
+    }
+    return retryResponse;
+  };
+}
+
+/**
+ * Returns a fetch function which adds the access token of the AuthProvider as bearer token.
+ * @see createAuthFetch
+ */
+export const useAuthFetch = (options?: AuthFetchOptions): AuthFetch => {
+  const { client } = useLoginContext(options?.name);
+  const allowedUrls = options?.allowedUrls;
+  const onSessionExpired = options?.onSessionExpired;
+
+  return useMemo(() => createAuthFetch(client, { allowedUrls, onSessionExpired }), [allowedUrls, client, onSessionExpired]);
+};
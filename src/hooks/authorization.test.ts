@@ -0,0 +1,64 @@
+import { authorize, Claims, roleMappers } from './authorization';
+
+const KEYCLOAK_CLAIMS: Claims = {
+  azp: 'my-app',
+  scope: 'openid profile admin',
+  realm_access: { roles: ['user'] },
+  resource_access: {
+    'my-app': { roles: ['editor'] },
+    'other-app': { roles: ['admin'] },
+  },
+};
+
+describe('roleMappers', () => {
+  it('reads the realm roles and the roles of the client the token was issued to', () => {
+    expect(roleMappers.keycloak()(KEYCLOAK_CLAIMS)).toEqual(['user', 'editor']);
+  });
+
+  it('reads the realm roles and the roles of the given client', () => {
+    expect(roleMappers.keycloak('other-app')(KEYCLOAK_CLAIMS)).toEqual(['user', 'admin']);
+  });
+
+  it('reads a claim with an array or a space separated list', () => {
+    expect(roleMappers.claim('realm_access.roles')(KEYCLOAK_CLAIMS)).toEqual(['user']);
+    expect(roleMappers.claim('scope')(KEYCLOAK_CLAIMS)).toEqual(['openid', 'profile', 'admin']);
+    expect(roleMappers.claim('missing')(KEYCLOAK_CLAIMS)).toEqual([]);
+  });
+
+  it('reads the Azure AD app roles and groups and the scopes', () => {
+    const claims: Claims = { roles: ['Admin'], groups: ['group-id'], scp: 'User.Read' };
+    expect(roleMappers.azureAd()(claims)).toEqual(['Admin', 'group-id']);
+    expect(roleMappers.scope()(claims)).toEqual(['User.Read']);
+  });
+});
+
+describe('authorize', () => {
+  it('does not grant the roles of other clients or the scopes by default', () => {
+    const result = authorize(KEYCLOAK_CLAIMS, { anyRoles: ['admin'] });
+
+    expect(result.roles).toEqual(['user', 'editor']);
+    expect(result.isAuthorized).toBe(false);
+  });
+
+  it('checks any and all roles', () => {
+    expect(authorize(KEYCLOAK_CLAIMS, { anyRoles: ['admin', 'editor'] }).isAuthorized).toBe(true);
+    expect(authorize(KEYCLOAK_CLAIMS, { allRoles: ['user', 'editor'] }).isAuthorized).toBe(true);
+    expect(authorize(KEYCLOAK_CLAIMS, { allRoles: ['user', 'admin'] }).isAuthorized).toBe(false);
+  });
+
+  it('uses the given role mappers', () => {
+    expect(authorize(KEYCLOAK_CLAIMS, { anyRoles: ['admin'], roleMappers: [roleMappers.scope()] }).isAuthorized).toBe(true);
+  });
+
+  it('checks nested claims and array claims', () => {
+    expect(authorize(KEYCLOAK_CLAIMS, { claims: { azp: 'my-app', 'realm_access.roles': 'user' } }).isAuthorized).toBe(true);
+    expect(authorize(KEYCLOAK_CLAIMS, { claims: { azp: 'other-app' } }).isAuthorized).toBe(false);
+  });
+
+  it('checks the predicate with the roles', () => {
+    const predicate = jest.fn(({ roles }: { roles: string[] }) => roles.length > 1);
+
+    expect(authorize(KEYCLOAK_CLAIMS, { predicate }).isAuthorized).toBe(true);
+    expect(predicate).toHaveBeenCalledWith({ claims: KEYCLOAK_CLAIMS, roles: ['user', 'editor'] });
+  });
+});
@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import { decodeJwt } from '../appauth/jwt';
+import { useLoginContext } from '../components/Auth/AuthProvider';
+
+export type Claims = Record<string, unknown>;
+
+/**
+ * Reads the roles (or groups, scopes, ...) of the user from the claims.
+ */
+export type RoleMapper = (claims: Claims) => string[];
+
+export interface AuthorizationContext {
+  /**
+   * The claims of the access token (if it is a JWT) merged with the claims of the ID token and the user info.
+   */
+  claims: Claims;
+  roles: string[];
+}
+
+export interface AuthorizationPolicy {
+  /**
+   * The user needs at least one of these roles.
+   */
+  anyRoles?: string[];
+  /**
+   * The user needs all of these roles.
+   */
+  allRoles?: string[];
+  /**
+   * Each claim has to equal the value, or contain it if the claim is an array.
+   * Nested claims can be addressed with a path like `realm_access.roles`.
+   */
+  claims?: Record<string, unknown>;
+  predicate?: (context: AuthorizationContext) => boolean;
+  /**
+   * @default DEFAULT_ROLE_MAPPERS
+   */
+  roleMappers?: RoleMapper[];
+}
+
+export interface AuthorizationResult extends AuthorizationContext {
+  isAuthorized: boolean;
+}
+
+/**
+ * @returns the claim at the given path, e.g. `resource_access.my-client.roles`
+ */
+export function getClaim(claims: Claims, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Claims)[key] : undefined), claims);
+}
+
+function toStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean);
+  }
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Role mappers for common identity providers.
+ */
+export const roleMappers = {
+  /**
+   * Reads a claim which contains an array or a space separated list.
+   */
+  claim:
+    (path: string): RoleMapper =>
+    claims =>
+      toStrings(getClaim(claims, path)),
+  /**
+   * Keycloak realm roles and the client roles of the given client, by default of the client the token was issued to (`azp`).
+   * The roles of other clients are not included, as they may use the same role names for other permissions.
+   */
+  keycloak:
+    (clientId?: string): RoleMapper =>
+    claims => {
+      const id = clientId || claims.azp;
+      const resourceAccess = (getClaim(claims, 'resource_access') || {}) as Record<string, { roles?: unknown } | undefined>;
+      // no path, as client ids may contain dots
+      const clientRoles = typeof id === 'string' ? toStrings(resourceAccess[id]?.roles) : [];
+      return toStrings(getClaim(claims, 'realm_access.roles')).concat(clientRoles);
+    },
+  /**
+   * Azure AD app roles and group ids.
+   */
+  azureAd: (): RoleMapper => claims => toStrings(claims.roles).concat(toStrings(claims.groups)),
+  /**
+   * The OAuth scopes (`scope` or `scp`).
+   */
+  scope: (): RoleMapper => claims => toStrings(claims.scope).concat(toStrings(claims.scp)),
+};
+
+/**
+ * The Keycloak realm roles and client roles of the app and the Azure AD app roles.
+ * Groups and scopes are no roles, add `roleMappers.azureAd()` or `roleMappers.scope()` to check them as well.
+ */
+export const DEFAULT_ROLE_MAPPERS: RoleMapper[] = [roleMappers.keycloak(), roleMappers.claim('roles')];
+
+function matchesClaim(claim: unknown, expected: unknown): boolean {
+  return Array.isArray(claim) ? claim.indexOf(expected) >= 0 : claim === expected;
+}
+
+/**
+ * Checks the policy against the given claims.
+ */
+export function authorize(claims: Claims, policy: AuthorizationPolicy): AuthorizationResult {
+  const roles = (policy.roleMappers || DEFAULT_ROLE_MAPPERS).reduce<string[]>((all, mapper) => all.concat(mapper(claims)), []);
+  const context: AuthorizationContext = { claims, roles };
+  const expectedClaims = policy.claims || {};
+
+  const isAuthorized =
+    (!policy.anyRoles || policy.anyRoles.some(role => roles.indexOf(role) >= 0)) &&
+    (!policy.allRoles || policy.allRoles.every(role => roles.indexOf(role) >= 0)) &&
+    Object.keys(expectedClaims).every(path => matchesClaim(getClaim(claims, path), expectedClaims[path])) &&
+    (!policy.predicate || policy.predicate(context));
+
+  return { ...context, isAuthorized };
+}
+
+/**
+ * Checks the policy against the claims of the logged in user.
+ * The result is never authorized if the user is not logged in.
+ * @param name the name of the AuthProvider to use
+ */
+export const useAuthorization = (policy: AuthorizationPolicy, name?: string): AuthorizationResult => {
+  const { isLoggedIn, token, user } = useLoginContext(name);
+
+  const accessTokenClaims = useMemo(() => {
+    if (!token) {
+      return undefined;
+    }
+    try {
+      return decodeJwt<Claims>(token);
+    } catch {
+      // opaque access token - only the claims of the ID token can be used
+      return undefined;
+    }
+  }, [token]);
+
+  return useMemo(() => {
+    const result = authorize({ ...accessTokenClaims, ...user }, policy);
+    return isLoggedIn ? result : { ...result, isAuthorized: false };
+  }, [accessTokenClaims, isLoggedIn, policy, user]);
+};
@@ -1 +1,14 @@
-export { AuthenticateOptions, AuthState, useAuth, ErrorHandler, ErrorAction } from './Auth';
+export { AuthOptions, AuthState, useAuth, InitialAuthState } from './Auth';
+export { createAuthFetch, useAuthFetch, AuthFetch, AuthFetchOptions } from './authFetch';
+export {
+  authorize,
+  getClaim,
+  roleMappers,
+  useAuthorization,
+  AuthorizationContext,
+  AuthorizationPolicy,
+  AuthorizationResult,
+  Claims,
+  DEFAULT_ROLE_MAPPERS,
+  RoleMapper,
+} from './authorization';
@@ -1,3 +1,4 @@
 export * from './components/Auth';
 export * from './hooks';
+export * from './client';
 export * from './appauth';
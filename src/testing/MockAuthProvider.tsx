@@ -0,0 +1,87 @@
+import React, { FC, ReactNode, useState } from 'react';
+// the public api is used, so the testing bundle shares the AuthContext with the main bundle
+import { AuthClient, AuthEventEmitter, AuthState, AuthStateProvider, IdTokenClaims, MemoryStorageBackend } from '../index';
+
+const MOCK_ISSUER = 'https://mock.invalid';
+const MOCK_CLIENT_ID = 'mock-client';
+const MOCK_ACCESS_TOKEN = 'mock-access-token';
+
+function createMockClaims(): IdTokenClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return { iss: MOCK_ISSUER, sub: 'mock-user', aud: MOCK_CLIENT_ID, iat: now, exp: now + 3600 };
+}
+
+/**
+ * A client which is never started and can not send requests.
+ */
+function createMockClient<TClaims extends IdTokenClaims = IdTokenClaims>(): AuthClient<TClaims> {
+  return new AuthClient<TClaims>({
+    options: { openIdConnectUrl: MOCK_ISSUER, clientId: MOCK_CLIENT_ID, scope: 'openid', redirectUrl: `${MOCK_ISSUER}/` },
+    storage: new MemoryStorageBackend(),
+    fetch: () => Promise.reject(new TypeError('the mock client does not send requests')),
+  });
+}
+
+/**
+ * Creates a complete AuthState from the given values.
+ * - `isLoggedIn` defaults to true if a `token` is given
+ * - a logged in state gets a mock `token` and `claims` if none are given
+ * - all functions resolve without doing anything, pass your own (e.g. `jest.fn()`) to check the calls
+ * - `client` is a client which is never started, pass your own if the tested code uses it (e.g. `useAuthFetch`)
+ */
+export function createMockAuthState<TClaims extends IdTokenClaims = IdTokenClaims>(
+  state: Partial<AuthState<TClaims>> = {},
+): AuthState<TClaims> {
+  const isLoggedIn = state.isLoggedIn ?? state.token !== undefined;
+  const token = state.token ?? (isLoggedIn ? MOCK_ACCESS_TOKEN : undefined);
+  const claims = state.claims ?? (isLoggedIn ? (createMockClaims() as TClaims) : undefined);
+  const grantedScopes = state.grantedScopes ?? (isLoggedIn ? ['openid'] : undefined);
+
+  return {
+    isReady: true,
+    networkStatus: 'online',
+    isRefreshing: false,
+    user: claims,
+    grantedScopes,
+    login: () => Promise.resolve(),
+    loginWithDeviceCode: () => Promise.resolve(),
+    cancelDeviceLogin: () => undefined,
+    requestScopes: () => Promise.resolve(),
+    logout: () => Promise.resolve(undefined),
+    logoutLocal: () => Promise.resolve(),
+    checkToken: () => Promise.resolve(undefined),
+    hasScope: scope => !!grantedScopes && grantedScopes.indexOf(scope) >= 0,
+    getToken: () => (token ? Promise.resolve(token) : Promise.reject(new Error('getToken requires a logged in user'))),
+    events: new AuthEventEmitter(),
+    client: createMockClient<TClaims>(),
+    ...state,
+    isLoggedIn,
+    token,
+    claims,
+  };
+}
+
+export type MockAuthProviderProps = Partial<AuthState> & {
+  children: ReactNode;
+  /**
+   * Provide the state for `useLoginContext(name)` instead of `useLoginContext()`.
+   */
+  name?: string;
+};
+
+/**
+ * Provides a controllable AuthState to the components below, without an identity provider.
+ * All props are optional, see `createMockAuthState` for the defaults.
+ * @example <MockAuthProvider isLoggedIn claims={{ ...claims, name: 'Jane' }}><Profile /></MockAuthProvider>
+ */
+export const MockAuthProvider: FC<MockAuthProviderProps> = ({ children, name, ...state }) => {
+  // created once, so the events and the client are the same for all renders
+  const [client] = useState(createMockClient);
+  const [events] = useState(() => new AuthEventEmitter());
+
+  return (
+    <AuthStateProvider state={createMockAuthState({ client, events, ...state })} name={name}>
+      {children}
+    </AuthStateProvider>
+  );
+};
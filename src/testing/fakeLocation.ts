@@ -0,0 +1,78 @@
+import { LocationLike } from '@openid/appauth';
+
+/**
+ * A stand-in for `window.location` which does not leave the page.
+ * Pass it to the `RedirectRequestHandler` and the `RedirectEndSessionRequestHandler`.
+ */
+export class FakeLocation implements LocationLike {
+  /**
+   * All urls passed to `assign`.
+   */
+  public readonly assignedUrls: string[] = [];
+
+  private url: URL;
+  private navigationListeners: ((href: string) => void)[] = [];
+
+  /**
+   * @param navigate returns the url the browser ends up at, e.g. the redirect back from the identity provider
+   */
+  public constructor(href: string, private readonly navigate: (url: string) => string = url => url) {
+    this.url = new URL(href);
+  }
+
+  public get href(): string {
+    return this.url.href;
+  }
+
+  public get hash(): string {
+    return this.url.hash;
+  }
+
+  public get host(): string {
+    return this.url.host;
+  }
+
+  public get origin(): string {
+    return this.url.origin;
+  }
+
+  public get hostname(): string {
+    return this.url.hostname;
+  }
+
+  public get pathname(): string {
+    return this.url.pathname;
+  }
+
+  public get port(): string {
+    return this.url.port;
+  }
+
+  public get protocol(): string {
+    return this.url.protocol;
+  }
+
+  public get search(): string {
+    return this.url.search;
+  }
+
+  public assign(url: string): void {
+    const absoluteUrl = new URL(url, this.url.href).href;
+    this.assignedUrls.push(absoluteUrl);
+    this.url = new URL(this.navigate(absoluteUrl));
+
+    const listeners = this.navigationListeners;
+    this.navigationListeners = [];
+    listeners.forEach(listener => listener(this.url.href));
+  }
+
+  /**
+   * The handlers navigate after the request is stored, so `login` and `logout` may return before.
+   * @returns the url after the next navigation
+   */
+  public nextNavigation(): Promise<string> {
+    return new Promise(resolve => {
+      this.navigationListeners.push(resolve);
+    });
+  }
+}
@@ -0,0 +1,477 @@
+import { DefaultCrypto, RedirectRequestHandler, StorageBackend } from '@openid/appauth';
+// the public api is used, so the testing bundle shares the AuthContext with the main bundle
+import {
+  AuthClientOptions,
+  AuthenticateOptions,
+  DeviceAuthorizationResponseJson,
+  GRANT_TYPE_DEVICE_CODE,
+  GRANT_TYPE_TOKEN_EXCHANGE,
+  MemoryStorageBackend,
+  NoHashQueryStringUtils,
+  OpenIdConfigurationJson,
+  RedirectEndSessionRequestHandler,
+  TOKEN_TYPE_ACCESS_TOKEN,
+} from '../index';
+import { FakeLocation } from './fakeLocation';
+
+export interface FakeOidcProviderOptions {
+  /**
+   * @default 'https://idp.example.test'
+   */
+  issuer?: string;
+  /**
+   * The claims of the user, added to the ID token and returned by the userinfo endpoint.
+   * @default { sub: 'fake-user' }
+   */
+  claims?: Record<string, unknown>;
+  /**
+   * The lifetime of the access tokens in seconds.
+   * @default 3600
+   */
+  expiresIn?: number;
+  /**
+   * Issue a new refresh token with each refresh and invalidate the used one.
+   * @default true
+   */
+  rotateRefreshTokens?: boolean;
+}
+
+export interface FakeOidcRequest {
+  method: string;
+  url: string;
+  /**
+   * The form parameters of a POST request.
+   */
+  body: Record<string, string>;
+}
+
+export interface FakeClientOptions {
+  location: FakeLocation;
+  /**
+   * Keep the storage to simulate a reload of the page.
+   * @default MemoryStorageBackend
+   */
+  storage?: StorageBackend;
+  /**
+   * Merged into the default options (this issuer, the client id `fake-client`, the url of the location as redirect url).
+   */
+  options?: Partial<AuthenticateOptions>;
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+}
+
+interface DeviceCode {
+  clientId: string;
+  userCode: string;
+  scope: string;
+  status: 'pending' | 'approved' | 'denied';
+}
+
+interface IssuedRefreshToken {
+  clientId: string;
+  scope: string;
+}
+
+const DEFAULT_ISSUER = 'https://idp.example.test';
+const DEFAULT_CLIENT_ID = 'fake-client';
+const DEFAULT_EXPIRES_IN = 3600;
+const DEVICE_CODE_EXPIRES_IN = 600;
+/**
+ * The polling interval of the device login in seconds.
+ */
+const DEVICE_CODE_INTERVAL = 5;
+
+const HTTP_OK = 200;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_NOT_FOUND = 404;
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlEncode(value: string): string {
+  return bytesToBase64Url(new TextEncoder().encode(value));
+}
+
+/**
+ * Creates an unsigned JWT, so the ID token can not be validated with `validateIdToken`.
+ */
+function createUnsignedJwt(payload: Record<string, unknown>): string {
+  return `${base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify(payload))}.`;
+}
+
+/**
+ * Creates a Response, also if the environment (e.g. jsdom) does not implement the fetch API.
+ */
+function createResponse(status: number, body?: unknown): Response {
+  const text = body === undefined ? '' : JSON.stringify(body);
+  const contentType = body === undefined ? 'text/plain' : 'application/json';
+  if (typeof Response !== 'undefined') {
+    return new Response(text, { status, headers: { 'Content-Type': contentType } });
+  }
+
+  const response = {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? contentType : undefined) },
+    json: () => Promise.resolve(JSON.parse(text) as unknown),
+    text: () => Promise.resolve(text),
+    clone: () => createResponse(status, body),
+  };
+  return response as unknown as Response;
+}
+
+function createErrorResponse(status: number, error: string): Response {
+  return createResponse(status, { error });
+}
+
+async function verifyCodeVerifier(code: AuthorizationCode, codeVerifier: string | undefined): Promise<boolean> {
+  if (!code.codeChallenge) {
+    return true;
+  }
+  if (!codeVerifier) {
+    return false;
+  }
+  if (code.codeChallengeMethod !== 'S256') {
+    return codeVerifier === code.codeChallenge;
+  }
+
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return bytesToBase64Url(new Uint8Array(digest)) === code.codeChallenge;
+}
+
+/**
+ * An in-process identity provider for tests, which serves discovery, authorize, token, refresh, revocation,
+ * userinfo, end session and the device authorization grant.
+ * Requests go through its `fetch`, and a `FakeLocation` created with `createLocation` follows the redirects
+ * to the authorization and end session endpoints, as if the user logged in (or out) at the identity provider.
+ * Note that `login` needs `crypto.getRandomValues` and `usePkce` also needs `crypto.subtle`.
+ * @example
+ * const provider = new FakeOidcProvider({ claims: { sub: '42', name: 'Jane' } });
+ * const location = provider.createLocation('https://app.example.test/');
+ * const options = provider.createClientOptions({ location });
+ * // render <AuthProvider {...options}>, call login and await location.nextNavigation(),
+ * // then render the AuthProvider again with the same options to handle the redirect back
+ */
+export class FakeOidcProvider {
+  public readonly issuer: string;
+  /**
+   * All requests sent to `fetch`.
+   */
+  public readonly requests: FakeOidcRequest[] = [];
+  /**
+   * All tokens sent to the revocation endpoint.
+   */
+  public readonly revokedTokens: string[] = [];
+  public claims: Record<string, unknown>;
+  /**
+   * true after a login and false after a logout at the identity provider.
+   * An authorization request with `prompt=none` (silent renew) fails with `login_required` without a session.
+   */
+  public isSessionActive: boolean = false;
+
+  private readonly expiresIn: number;
+  private readonly rotateRefreshTokens: boolean;
+  private readonly codes: Map<string, AuthorizationCode> = new Map<string, AuthorizationCode>();
+  private readonly deviceCodes: Map<string, DeviceCode> = new Map<string, DeviceCode>();
+  private readonly refreshTokens: Map<string, IssuedRefreshToken> = new Map<string, IssuedRefreshToken>();
+  private readonly accessTokens: Set<string> = new Set<string>();
+  private issuedCount: number = 0;
+
+  public constructor({
+    issuer = DEFAULT_ISSUER,
+    claims = { sub: 'fake-user' },
+    expiresIn = DEFAULT_EXPIRES_IN,
+    rotateRefreshTokens = true,
+  }: FakeOidcProviderOptions = {}) {
+    this.issuer = issuer;
+    this.claims = claims;
+    this.expiresIn = expiresIn;
+    this.rotateRefreshTokens = rotateRefreshTokens;
+  }
+
+  /**
+   * The discovery document.
+   */
+  public get configuration(): OpenIdConfigurationJson {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/authorize`,
+      token_endpoint: `${this.issuer}/token`,
+      revocation_endpoint: `${this.issuer}/revoke`,
+      end_session_endpoint: `${this.issuer}/logout`,
+      userinfo_endpoint: `${this.issuer}/userinfo`,
+      device_authorization_endpoint: `${this.issuer}/device`,
+    };
+    /* eslint-enable @typescript-eslint/naming-convention */
+  }
+
+  /**
+   * @returns a location which follows the redirects of this identity provider
+   */
+  public createLocation(href: string): FakeLocation {
+    return new FakeLocation(href, url => this.navigate(url));
+  }
+
+  /**
+   * @returns the options for an AuthProvider (or AuthClient) which uses this identity provider and the given location
+   */
+  public createClientOptions({ location, storage = new MemoryStorageBackend(), options }: FakeClientOptions): AuthClientOptions {
+    return {
+      options: {
+        openIdConnectUrl: this.issuer,
+        clientId: DEFAULT_CLIENT_ID,
+        scope: 'openid offline_access',
+        redirectUrl: `${location.origin}${location.pathname}`,
+        ...options,
+      },
+      storage,
+      authHandler: new RedirectRequestHandler(storage, new NoHashQueryStringUtils(), location, new DefaultCrypto()),
+      endSessionHandler: new RedirectEndSessionRequestHandler(storage, new NoHashQueryStringUtils(), location),
+      fetch: this.fetch,
+      retry: false,
+    };
+  }
+
+  /**
+   * @returns the url the browser ends up at after navigating to the given url
+   */
+  public navigate(url: string): string {
+    const { pathname, origin } = new URL(url);
+    const configuration = this.configuration;
+    if (`${origin}${pathname}` === configuration.authorization_endpoint) {
+      return this.authorize(url);
+    }
+    if (`${origin}${pathname}` === configuration.end_session_endpoint) {
+      return this.endSession(url);
+    }
+    return url;
+  }
+
+  /**
+   * Logs the user in and issues an authorization code.
+   * @returns the redirect back to the app
+   */
+  public authorize(url: string): string {
+    const { searchParams } = new URL(url);
+    const redirectUrl = new URL(searchParams.get('redirect_uri') || '');
+    const state = searchParams.get('state');
+    if (state) {
+      redirectUrl.searchParams.set('state', state);
+    }
+
+    if (searchParams.get('prompt') === 'none' && !this.isSessionActive) {
+      redirectUrl.searchParams.set('error', 'login_required');
+      return redirectUrl.href;
+    }
+
+    const code = this.createToken('code');
+    this.codes.set(code, {
+      clientId: searchParams.get('client_id') || '',
+      redirectUri: searchParams.get('redirect_uri') || '',
+      scope: searchParams.get('scope') || '',
+      nonce: searchParams.get('nonce') || undefined,
+      codeChallenge: searchParams.get('code_challenge') || undefined,
+      codeChallengeMethod: searchParams.get('code_challenge_method') || undefined,
+    });
+    this.isSessionActive = true;
+    redirectUrl.searchParams.set('code', code);
+    return redirectUrl.href;
+  }
+
+  /**
+   * Ends the session at the identity provider.
+   * @returns the redirect back to the app, or the url of the identity provider without `post_logout_redirect_uri`
+   */
+  public endSession(url: string): string {
+    this.isSessionActive = false;
+    const { searchParams } = new URL(url);
+    const postLogoutRedirectUri = searchParams.get('post_logout_redirect_uri');
+    if (!postLogoutRedirectUri) {
+      return url;
+    }
+
+    const redirectUrl = new URL(postLogoutRedirectUri);
+    const state = searchParams.get('state');
+    if (state) {
+      redirectUrl.searchParams.set('state', state);
+    }
+    return redirectUrl.href;
+  }
+
+  /**
+   * Approves (or denies) the device login with the given user code, as if the user entered it at the verification uri.
+   */
+  public completeDeviceLogin(userCode: string, isApproved: boolean = true): void {
+    this.deviceCodes.forEach(deviceCode => {
+      if (deviceCode.userCode === userCode) {
+        deviceCode.status = isApproved ? 'approved' : 'denied';
+      }
+    });
+  }
+
+  /**
+   * Invalidates all issued tokens, e.g. to test an expired session (the next refresh fails with `invalid_grant`).
+   */
+  public revokeAllTokens(): void {
+    this.refreshTokens.clear();
+    this.accessTokens.clear();
+  }
+
+  public readonly fetch = async (input: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === 'string' ? input : input.url);
+    const method = (init?.method || 'GET').toUpperCase();
+    const body: Record<string, string> = {};
+    new URLSearchParams(typeof init?.body === 'string' ? init.body : '').forEach((value, key) => {
+      body[key] = value;
+    });
+    this.requests.push({ method, url: url.href, body });
+
+    const configuration = this.configuration;
+    switch (`${url.origin}${url.pathname}`) {
+      case `${this.issuer}/.well-known/openid-configuration`:
+        return createResponse(HTTP_OK, configuration);
+      case configuration.token_endpoint:
+        return this.handleTokenRequest(body);
+      case configuration.revocation_endpoint:
+        this.revokedTokens.push(body.token);
+        this.refreshTokens.delete(body.token);
+        this.accessTokens.delete(body.token);
+        return createResponse(HTTP_OK);
+      case configuration.device_authorization_endpoint:
+        return this.handleDeviceAuthorizationRequest(body);
+      case configuration.userinfo_endpoint:
+        return this.handleUserInfoRequest(init?.headers);
+      default:
+        return createErrorResponse(HTTP_NOT_FOUND, 'not_found');
+    }
+  };
+
+  private async handleTokenRequest(body: Record<string, string>): Promise<Response> {
+    if (body.grant_type === 'authorization_code') {
+      const code = this.codes.get(body.code);
+      // a code can only be used once
+      this.codes.delete(body.code);
+      if (!code || code.clientId !== body.client_id || code.redirectUri !== body.redirect_uri) {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'invalid_grant');
+      }
+      if (!(await verifyCodeVerifier(code, body.code_verifier))) {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'invalid_grant');
+      }
+      return createResponse(HTTP_OK, this.issueTokens(code.clientId, code.scope, code.nonce, true));
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      const refreshToken = this.refreshTokens.get(body.refresh_token);
+      if (!refreshToken || refreshToken.clientId !== body.client_id) {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'invalid_grant');
+      }
+      if (this.rotateRefreshTokens) {
+        this.refreshTokens.delete(body.refresh_token);
+      }
+      return createResponse(HTTP_OK, this.issueTokens(refreshToken.clientId, refreshToken.scope, undefined, this.rotateRefreshTokens));
+    }
+
+    if (body.grant_type === GRANT_TYPE_DEVICE_CODE) {
+      const deviceCode = this.deviceCodes.get(body.device_code);
+      if (!deviceCode || deviceCode.clientId !== body.client_id) {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'invalid_grant');
+      }
+      if (deviceCode.status === 'pending') {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'authorization_pending');
+      }
+      this.deviceCodes.delete(body.device_code);
+      if (deviceCode.status === 'denied') {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'access_denied');
+      }
+      return createResponse(HTTP_OK, this.issueTokens(deviceCode.clientId, deviceCode.scope, undefined, true));
+    }
+
+    if (body.grant_type === GRANT_TYPE_TOKEN_EXCHANGE) {
+      if (body.subject_token_type !== TOKEN_TYPE_ACCESS_TOKEN || !this.accessTokens.has(body.subject_token)) {
+        return createErrorResponse(HTTP_BAD_REQUEST, 'invalid_grant');
+      }
+      return createResponse(HTTP_OK, this.issueTokens(body.client_id, body.scope || '', undefined, false));
+    }
+
+    return createErrorResponse(HTTP_BAD_REQUEST, 'unsupported_grant_type');
+  }
+
+  private handleDeviceAuthorizationRequest(body: Record<string, string>): Response {
+    const deviceCode = this.createToken('device-code');
+    const userCode = this.createToken('user-code');
+    this.deviceCodes.set(deviceCode, { clientId: body.client_id, userCode, scope: body.scope || '', status: 'pending' });
+
+    const verificationUri = `${this.issuer}/device`;
+    const response: DeviceAuthorizationResponseJson = {
+      /* eslint-disable @typescript-eslint/naming-convention */
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: verificationUri,
+      verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(userCode)}`,
+      expires_in: DEVICE_CODE_EXPIRES_IN,
+      interval: DEVICE_CODE_INTERVAL,
+      /* eslint-enable @typescript-eslint/naming-convention */
+    };
+    return createResponse(HTTP_OK, response);
+  }
+
+  private handleUserInfoRequest(headers: HeadersInit | undefined): Response {
+    // the ConfigurableFetchRequestor sends the headers as object
+    const authorization = (headers as Record<string, string> | undefined)?.Authorization || '';
+    const accessToken = authorization.replace(/^Bearer /, '');
+    if (!this.accessTokens.has(accessToken)) {
+      return createErrorResponse(HTTP_UNAUTHORIZED, 'invalid_token');
+    }
+    return createResponse(HTTP_OK, this.claims);
+  }
+
+  private issueTokens(clientId: string, scope: string, nonce: string | undefined, withRefreshToken: boolean): Record<string, unknown> {
+    const accessToken = this.createToken('access-token');
+    this.accessTokens.add(accessToken);
+
+    let refreshToken: string | undefined;
+    if (withRefreshToken) {
+      refreshToken = this.createToken('refresh-token');
+      this.refreshTokens.set(refreshToken, { clientId, scope });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken =
+      scope.split(' ').indexOf('openid') >= 0
+        ? createUnsignedJwt({ iss: this.issuer, aud: clientId, iat: now, exp: now + this.expiresIn, nonce, ...this.claims })
+        : undefined;
+
+    /* eslint-disable @typescript-eslint/naming-convention */
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.expiresIn,
+      scope,
+      id_token: idToken,
+      refresh_token: refreshToken,
+    };
+    /* eslint-enable @typescript-eslint/naming-convention */
+  }
+
+  /**
+   * @returns a unique and readable token, e.g. `fake-access-token-1`
+   */
+  private createToken(type: string): string {
+    this.issuedCount += 1;
+    return `fake-${type}-${this.issuedCount}`;
+  }
+}
@@ -0,0 +1,3 @@
+export { MockAuthProvider, MockAuthProviderProps, createMockAuthState } from './MockAuthProvider';
+export { FakeOidcProvider, FakeOidcProviderOptions, FakeOidcRequest, FakeClientOptions } from './fakeOidcProvider';
+export { FakeLocation } from './fakeLocation';